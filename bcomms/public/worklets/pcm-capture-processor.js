@@ -0,0 +1,88 @@
+/**
+ * AudioWorklet processor that turns microphone input into 16-bit little-endian mono PCM at the
+ * requested sample rate (16kHz for speech recognition), posted to the main thread in chunks.
+ *
+ * Messages to the processor: "flush" posts the samples collected so far, then { type: "flushed" };
+ * "pause" posts the samples so far and ignores the input until "resume".
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate = 16000, chunkSamples = 4000 } = options.processorOptions ?? {};
+
+    // Each output sample averages the input samples it covers, which also filters out
+    // frequencies the lower sample rate can't represent
+    this.ratio = sampleRate / targetSampleRate;
+    this.position = 0;
+    this.sum = 0;
+    this.count = 0;
+
+    this.chunkSamples = chunkSamples;
+    this.buffer = new Int16Array(chunkSamples);
+    this.length = 0;
+    this.active = true;
+    this.paused = false;
+
+    this.port.onmessage = (event) => {
+      if (event.data === "flush") {
+        this.postBuffer();
+        this.port.postMessage({ type: "flushed" });
+        this.active = false;
+      } else if (event.data === "pause") {
+        this.postBuffer();
+        this.paused = true;
+      } else if (event.data === "resume") {
+        this.paused = false;
+      }
+    };
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!this.active || this.paused || !channels || channels.length === 0) {
+      return this.active;
+    }
+
+    const frames = channels[0].length;
+    for (let i = 0; i < frames; i++) {
+      // Mix down to mono
+      let sample = 0;
+      for (const channel of channels) {
+        sample += channel[i];
+      }
+      this.sum += sample / channels.length;
+      this.count++;
+      this.position++;
+
+      if (this.position >= this.ratio) {
+        this.position -= this.ratio;
+        this.pushSample(this.sum / this.count);
+        this.sum = 0;
+        this.count = 0;
+      }
+    }
+
+    return true;
+  }
+
+  pushSample(value) {
+    const clamped = Math.max(-1, Math.min(1, value));
+    this.buffer[this.length++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+
+    if (this.length === this.chunkSamples) {
+      this.postBuffer();
+    }
+  }
+
+  postBuffer() {
+    if (this.length === 0) {
+      return;
+    }
+
+    const chunk = this.buffer.slice(0, this.length);
+    this.port.postMessage(chunk.buffer, [chunk.buffer]);
+    this.length = 0;
+  }
+}
+
+registerProcessor("pcm-capture", PcmCaptureProcessor);
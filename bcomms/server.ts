@@ -0,0 +1,30 @@
+/**
+ * Custom Next.js server.
+ *
+ * Next.js route handlers cannot accept WebSocket upgrades, so this server hosts the app and
+ * the Rev.ai streaming relay (see `src/server/transcribe/stream-relay.ts`) on the same port.
+ * Run it with `npm run dev` or `npm run start`.
+ */
+import { createServer } from "node:http";
+import next from "next";
+
+const dev = process.env.NODE_ENV !== "production";
+const port = Number(process.env.PORT ?? 3000);
+
+const app = next({ dev, turbopack: dev });
+const handle = app.getRequestHandler();
+
+await app.prepare();
+
+// Imported after `prepare()` so that Next.js has loaded `.env` before the env schema is validated
+const { attachStreamRelay } = await import("~/server/transcribe/stream-relay");
+
+const server = createServer((req, res) => {
+  void handle(req, res);
+});
+
+attachStreamRelay(server, app.getUpgradeHandler());
+
+server.listen(port, () => {
+  console.log(`> Ready on http://localhost:${port}${dev ? " (development)" : ""}`);
+});
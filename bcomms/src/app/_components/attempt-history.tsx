@@ -0,0 +1,185 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { ChevronDown, ChevronUp, History, Trash2 } from "lucide-react";
+
+import { Button } from "~/components/ui/button";
+import { averageRubricScore, ScorePanel } from "~/components/ui/score-panel";
+import { SentimentFeedback } from "~/components/ui/sentiment-feedback";
+import type { TranscriptEdit } from "~/lib/analysis/transcript-edits";
+import { attemptRecordingUrl } from "~/lib/services/attempt-recording";
+import { MAX_RUBRIC_SCORE } from "~/lib/services/groq-service";
+import { cn } from "~/lib/utils";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type Attempt = RouterOutputs["attempt"]["list"][number];
+
+// e.g. "desert" → "dessert", or a word the learner added or removed
+function describeEdit(edit: TranscriptEdit): string {
+  if (edit.recognized && edit.corrected) return `"${edit.recognized}" → "${edit.corrected}"`;
+  if (edit.recognized) return `removed "${edit.recognized}"`;
+  return `added "${edit.corrected}"`;
+}
+
+function AttemptItem({ attempt }: { attempt: Attempt }) {
+  const [expanded, setExpanded] = useState(false);
+  const utils = api.useUtils();
+  const deleteAttempt = api.attempt.delete.useMutation({
+    onSuccess: async () => {
+      await utils.attempt.invalidate();
+    },
+  });
+
+  return (
+    <li className="rounded-lg bg-white/20 p-3 text-white">
+      <button
+        className="flex w-full items-start justify-between gap-2 text-left"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+      >
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium">
+            {attempt.scenario.description}
+          </p>
+          <p className="text-xs text-white/70">
+            {attempt.recordedAt.toLocaleString()}
+            {attempt.feedback.scores &&
+              ` · ${averageRubricScore(attempt.feedback.scores).toFixed(1)} / ${MAX_RUBRIC_SCORE}`}
+          </p>
+        </div>
+        {expanded ? (
+          <ChevronUp className="h-4 w-4 flex-shrink-0" />
+        ) : (
+          <ChevronDown className="h-4 w-4 flex-shrink-0" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3 text-sm">
+          <div>
+            <h4 className="text-xs font-medium text-white/70">Your Response</h4>
+            <p className="mt-1 rounded-md bg-white/10 p-2">
+              {attempt.transcript}
+            </p>
+            {attempt.transcriptCorrection && (
+              <p className="mt-1 text-xs text-white/70">
+                You corrected {attempt.transcriptCorrection.changedWordCount}{" "}
+                {attempt.transcriptCorrection.changedWordCount === 1 ? "word" : "words"} of the transcript:{" "}
+                {attempt.transcriptCorrection.edits
+                  .map(describeEdit)
+                  .join(", ")}
+              </p>
+            )}
+          </div>
+
+          {attempt.recording && (
+            <div>
+              <audio
+                src={attemptRecordingUrl(attempt.id)}
+                controls
+                preload="none"
+                className="h-10 w-full"
+              />
+              <p className="mt-1 text-xs text-white/70">
+                Recording kept until{" "}
+                {attempt.recording.expiresAt.toLocaleDateString()}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-medium text-white/70">
+              Overall Assessment
+            </h4>
+            <p className="mt-1">{attempt.feedback.overallFeedback}</p>
+          </div>
+
+          {attempt.feedback.scores && (
+            <ScorePanel
+              scores={attempt.feedback.scores}
+              className="bg-white/90"
+            />
+          )}
+
+          {attempt.feedback.improvements.length > 0 && (
+            <div>
+              <h4 className="text-xs font-medium text-white/70">
+                Areas for Improvement
+              </h4>
+              <ul className="mt-1 ml-4 list-disc space-y-1">
+                {attempt.feedback.improvements.map((improvement, index) => (
+                  <li key={index}>{improvement}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {attempt.sentiment && (
+            <SentimentFeedback
+              sentiment={attempt.sentiment}
+              className="text-gray-800"
+            />
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-red-200 bg-white/90 text-red-600 hover:bg-red-50"
+              onClick={() => deleteAttempt.mutate({ id: attempt.id })}
+              disabled={deleteAttempt.isPending}
+            >
+              <Trash2 className="mr-1 h-3 w-3" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function AttemptHistory({ className }: { className?: string }) {
+  const attempts = api.attempt.list.useQuery(undefined, { retry: false });
+  const isSignedOut = attempts.error?.data?.code === "UNAUTHORIZED";
+
+  return (
+    <div
+      className={cn(
+        "space-y-4 rounded-xl bg-white/10 p-6 shadow-lg backdrop-blur-sm",
+        className,
+      )}
+    >
+      <h2 className="flex items-center gap-2 text-2xl font-semibold text-white">
+        <History className="h-5 w-5" />
+        Previous Attempts
+      </h2>
+
+      {isSignedOut ? (
+        <p className="text-sm text-white/90">
+          <Link href="/api/auth/signin" className="underline">
+            Sign in
+          </Link>{" "}
+          to keep a history of your practice sessions.
+        </p>
+      ) : attempts.isLoading ? (
+        <p className="text-sm text-white/70">Loading your attempts...</p>
+      ) : attempts.error ? (
+        <p className="text-sm text-white/90">
+          Unable to load your previous attempts.
+        </p>
+      ) : attempts.data && attempts.data.length > 0 ? (
+        <ul className="max-h-[60vh] space-y-2 overflow-y-auto">
+          {attempts.data.map((attempt) => (
+            <AttemptItem key={attempt.id} attempt={attempt} />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-white/70">
+          Your submitted attempts will appear here.
+        </p>
+      )}
+    </div>
+  );
+}
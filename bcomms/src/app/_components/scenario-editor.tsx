@@ -0,0 +1,433 @@
+"use client";
+
+import { useState } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+import { Button } from "~/components/ui/button";
+import type { Scenario } from "~/components/ui/scenario-dropdown";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  DEFAULT_PRACTICE_LANGUAGE,
+  practiceLanguageNames,
+  practiceLanguages,
+  type PracticeLanguage,
+} from "~/lib/languages";
+import {
+  MAX_CUSTOM_VOCABULARY_PHRASES,
+  MAX_PREP_SECONDS,
+  MAX_REFERENCE_TEXT_LENGTH,
+  MAX_SPEAK_SECONDS,
+  MIN_SPEAK_SECONDS,
+  scenarioCategories,
+  scenarioCategoryLabels,
+  scenarioDifficulties,
+  scenarioDifficultyLabels,
+  type ScenarioCategory,
+  type ScenarioDifficulty,
+} from "~/lib/scenarios";
+import { formatCountdown } from "~/lib/timed-response-machine";
+import { api } from "~/trpc/react";
+
+interface ScenarioFormValues {
+  description: string;
+  prompt: string;
+  category: ScenarioCategory;
+  difficulty: ScenarioDifficulty;
+  language: PracticeLanguage;
+  targetSkills: string;
+  exampleAnswers: string;
+  prepSeconds: string;
+  speakSeconds: string;
+  referenceText: string;
+  customVocabulary: string;
+}
+
+const emptyForm: ScenarioFormValues = {
+  description: "",
+  prompt: "",
+  category: "phone_calls",
+  difficulty: "beginner",
+  language: DEFAULT_PRACTICE_LANGUAGE,
+  targetSkills: "",
+  exampleAnswers: "",
+  prepSeconds: "",
+  speakSeconds: "",
+  referenceText: "",
+  customVocabulary: "",
+};
+
+function toFormValues(scenario: Scenario): ScenarioFormValues {
+  return {
+    description: scenario.description,
+    prompt: scenario.prompt,
+    category: scenario.category,
+    difficulty: scenario.difficulty,
+    language: scenario.language,
+    targetSkills: scenario.targetSkills.join(", "),
+    exampleAnswers: scenario.exampleAnswers?.join("\n") ?? "",
+    prepSeconds: scenario.prepSeconds?.toString() ?? "",
+    speakSeconds: scenario.speakSeconds?.toString() ?? "",
+    referenceText: scenario.referenceText ?? "",
+    customVocabulary: scenario.customVocabulary.join(", "),
+  };
+}
+
+// Empty timing fields leave the scenario untimed
+function toSeconds(value: string): number | undefined {
+  return value.trim() ? Number(value) : undefined;
+}
+
+function ScenarioForm({
+  initialValues,
+  isSaving,
+  onSave,
+  onCancel,
+}: {
+  initialValues: ScenarioFormValues;
+  isSaving: boolean;
+  onSave: (values: ScenarioFormValues) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState(initialValues);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(values);
+      }}
+      className="space-y-3 rounded-lg bg-white p-4 text-gray-800"
+    >
+      <label className="block text-sm font-medium">
+        Situation
+        <textarea
+          required
+          value={values.description}
+          onChange={(e) => setValues({ ...values, description: e.target.value })}
+          className="mt-1 w-full rounded-md border p-2 font-normal"
+          rows={2}
+        />
+      </label>
+      <label className="block text-sm font-medium">
+        Speaking task
+        <input
+          required
+          value={values.prompt}
+          onChange={(e) => setValues({ ...values, prompt: e.target.value })}
+          className="mt-1 w-full rounded-md border p-2 font-normal"
+        />
+      </label>
+      <div className="flex gap-3">
+        <div className="flex-1 text-sm font-medium">
+          Category
+          <Select
+            value={values.category}
+            onValueChange={(category) =>
+              setValues({ ...values, category: category as ScenarioCategory })
+            }
+          >
+            <SelectTrigger className="mt-1 w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {scenarioCategories.map((category) => (
+                <SelectItem key={category} value={category}>
+                  {scenarioCategoryLabels[category]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex-1 text-sm font-medium">
+          Difficulty
+          <Select
+            value={values.difficulty}
+            onValueChange={(difficulty) =>
+              setValues({
+                ...values,
+                difficulty: difficulty as ScenarioDifficulty,
+              })
+            }
+          >
+            <SelectTrigger className="mt-1 w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {scenarioDifficulties.map((difficulty) => (
+                <SelectItem key={difficulty} value={difficulty}>
+                  {scenarioDifficultyLabels[difficulty]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex-1 text-sm font-medium">
+          Language
+          <Select
+            value={values.language}
+            onValueChange={(language) =>
+              setValues({ ...values, language: language as PracticeLanguage })
+            }
+          >
+            <SelectTrigger className="mt-1 w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {practiceLanguages.map((language) => (
+                <SelectItem key={language} value={language}>
+                  {practiceLanguageNames[language]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <label className="block text-sm font-medium">
+        Target skills (comma separated)
+        <input
+          value={values.targetSkills}
+          onChange={(e) => setValues({ ...values, targetSkills: e.target.value })}
+          className="mt-1 w-full rounded-md border p-2 font-normal"
+        />
+      </label>
+      <label className="block text-sm font-medium">
+        Example answers (one per line, optional)
+        <textarea
+          value={values.exampleAnswers}
+          onChange={(e) =>
+            setValues({ ...values, exampleAnswers: e.target.value })
+          }
+          className="mt-1 w-full rounded-md border p-2 font-normal"
+          rows={3}
+        />
+      </label>
+      <label className="block text-sm font-medium">
+        Read-aloud text (optional, enables read-aloud practice)
+        <textarea
+          value={values.referenceText}
+          onChange={(e) =>
+            setValues({ ...values, referenceText: e.target.value })
+          }
+          maxLength={MAX_REFERENCE_TEXT_LENGTH}
+          className="mt-1 w-full rounded-md border p-2 font-normal"
+          rows={2}
+        />
+      </label>
+      <label className="block text-sm font-medium">
+        Custom vocabulary (comma separated, optional, e.g. names and uncommon words the recognizer
+        should expect)
+        <input
+          value={values.customVocabulary}
+          onChange={(e) =>
+            setValues({ ...values, customVocabulary: e.target.value })
+          }
+          placeholder="cappuccino, croissant"
+          className="mt-1 w-full rounded-md border p-2 font-normal"
+        />
+      </label>
+      <div className="flex gap-3">
+        <label className="flex-1 text-sm font-medium">
+          Preparation time (seconds, optional)
+          <input
+            type="number"
+            min={0}
+            max={MAX_PREP_SECONDS}
+            value={values.prepSeconds}
+            onChange={(e) => setValues({ ...values, prepSeconds: e.target.value })}
+            className="mt-1 w-full rounded-md border p-2 font-normal"
+          />
+        </label>
+        <label className="flex-1 text-sm font-medium">
+          Speaking time (seconds, makes the scenario timed)
+          <input
+            type="number"
+            min={MIN_SPEAK_SECONDS}
+            max={MAX_SPEAK_SECONDS}
+            required={values.prepSeconds.trim() !== ""}
+            value={values.speakSeconds}
+            onChange={(e) => setValues({ ...values, speakSeconds: e.target.value })}
+            className="mt-1 w-full rounded-md border p-2 font-normal"
+          />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700"
+          disabled={isSaving}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function ScenarioEditor() {
+  const [scenarios] = api.scenario.list.useSuspenseQuery();
+  const [editingId, setEditingId] = useState<number | "new" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const mutationOptions = {
+    onSuccess: async () => {
+      await utils.scenario.invalidate();
+      setEditingId(null);
+      setError(null);
+    },
+    onError: (error: { message: string; data?: { code?: string } | null }) => {
+      setError(
+        error.data?.code === "UNAUTHORIZED"
+          ? "Please sign in to edit the scenario library."
+          : error.data?.code === "FORBIDDEN"
+            ? "Only instructors can edit the scenario library."
+            : `Failed to save scenario: ${error.message}`,
+      );
+    },
+  };
+  const createScenario = api.scenario.create.useMutation(mutationOptions);
+  const updateScenario = api.scenario.update.useMutation(mutationOptions);
+  const deleteScenario = api.scenario.delete.useMutation(mutationOptions);
+
+  const handleSave = (values: ScenarioFormValues) => {
+    const input = {
+      description: values.description,
+      prompt: values.prompt,
+      category: values.category,
+      difficulty: values.difficulty,
+      language: values.language,
+      targetSkills: values.targetSkills
+        .split(",")
+        .map((skill) => skill.trim())
+        .filter(Boolean),
+      exampleAnswers: values.exampleAnswers
+        .split("\n")
+        .map((answer) => answer.trim())
+        .filter(Boolean),
+      speakSeconds: toSeconds(values.speakSeconds),
+      // Preparation only applies to timed scenarios
+      prepSeconds: values.speakSeconds.trim() ? toSeconds(values.prepSeconds) : undefined,
+      referenceText: values.referenceText.trim() || undefined,
+      customVocabulary: values.customVocabulary
+        .split(",")
+        .map((phrase) => phrase.trim())
+        .filter(Boolean)
+        .slice(0, MAX_CUSTOM_VOCABULARY_PHRASES),
+    };
+
+    if (editingId === "new") {
+      createScenario.mutate(input);
+    } else if (editingId !== null) {
+      updateScenario.mutate({ ...input, id: editingId });
+    }
+  };
+
+  const isSaving = createScenario.isPending || updateScenario.isPending;
+
+  return (
+    <div className="w-full max-w-3xl space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-100 p-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      {editingId === "new" ? (
+        <ScenarioForm
+          initialValues={emptyForm}
+          isSaving={isSaving}
+          onSave={handleSave}
+          onCancel={() => setEditingId(null)}
+        />
+      ) : (
+        <Button
+          onClick={() => setEditingId("new")}
+          className="gap-1 bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4" />
+          New scenario
+        </Button>
+      )}
+
+      {scenarioCategories.map((category) => {
+        const categoryScenarios = scenarios.filter(
+          (scenario) => scenario.category === category,
+        );
+        if (categoryScenarios.length === 0) return null;
+
+        return (
+          <section key={category} className="space-y-2">
+            <h2 className="text-xl font-semibold text-white">
+              {scenarioCategoryLabels[category]}
+            </h2>
+            <ul className="space-y-2">
+              {categoryScenarios.map((scenario) =>
+                editingId === scenario.id ? (
+                  <li key={scenario.id}>
+                    <ScenarioForm
+                      initialValues={toFormValues(scenario)}
+                      isSaving={isSaving}
+                      onSave={handleSave}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  </li>
+                ) : (
+                  <li
+                    key={scenario.id}
+                    className="flex items-start justify-between gap-4 rounded-lg bg-white/20 p-4 text-white"
+                  >
+                    <div>
+                      <p className="font-medium">{scenario.description}</p>
+                      <p className="text-sm text-white/80">{scenario.prompt}</p>
+                      <p className="mt-1 text-xs text-white/70">
+                        {practiceLanguageNames[scenario.language]} ·{" "}
+                        {scenarioDifficultyLabels[scenario.difficulty]}
+                        {scenario.targetSkills.length > 0 &&
+                          ` · ${scenario.targetSkills.join(", ")}`}
+                        {scenario.speakSeconds !== undefined &&
+                          ` · Timed: ${formatCountdown(scenario.prepSeconds ?? 0)} to prepare, ${formatCountdown(scenario.speakSeconds)} to answer`}
+                        {scenario.referenceText && " · Read aloud"}
+                        {scenario.customVocabulary.length > 0 &&
+                          ` · Vocabulary: ${scenario.customVocabulary.join(", ")}`}
+                      </p>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8 rounded-full bg-white/90 text-gray-700"
+                        onClick={() => setEditingId(scenario.id)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8 rounded-full bg-white/90 text-red-600"
+                        onClick={() => deleteScenario.mutate({ id: scenario.id })}
+                        disabled={deleteScenario.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    </div>
+                  </li>
+                ),
+              )}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
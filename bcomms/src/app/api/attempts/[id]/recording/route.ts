@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { auth } from '~/server/auth';
+import { db } from '~/server/db';
+import { attempts, recordings } from '~/server/db/schema';
+import {
+  getRecordingExpiry,
+  isRecordingStorageEnabled,
+  MAX_RECORDING_BYTES,
+  purgeExpiredRecordings
+} from '~/server/recordings';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Find the signed-in user's attempt, or the error response to send instead
+ */
+async function findOwnAttempt(context: RouteContext) {
+  const session = await auth();
+  if (!session?.user) {
+    return { error: NextResponse.json({ error: 'Sign in to keep recordings' }, { status: 401 }) };
+  }
+
+  const { id } = await context.params;
+  const attemptId = Number(id);
+  if (!Number.isInteger(attemptId)) {
+    return { error: NextResponse.json({ error: 'Invalid attempt id' }, { status: 400 }) };
+  }
+
+  const attempt = await db.query.attempts.findFirst({
+    where: and(eq(attempts.id, attemptId), eq(attempts.userId, session.user.id)),
+    columns: { id: true },
+  });
+  if (!attempt) {
+    return { error: NextResponse.json({ error: 'Attempt not found' }, { status: 404 }) };
+  }
+
+  return { attemptId: attempt.id };
+}
+
+// Store the recording of an attempt
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const result = await findOwnAttempt(context);
+    if (result.error) {
+      return result.error;
+    }
+
+    if (!isRecordingStorageEnabled()) {
+      return NextResponse.json({ stored: false });
+    }
+
+    const formData = await request.formData();
+    const audio = formData.get('audio');
+
+    if (!(audio instanceof Blob) || audio.size === 0) {
+      return NextResponse.json(
+        { error: 'An audio file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (audio.size > MAX_RECORDING_BYTES) {
+      return NextResponse.json(
+        { error: 'Audio file is too large' },
+        { status: 413 }
+      );
+    }
+
+    // Good moment to clean up, uploads happen about as often as recordings expire
+    await purgeExpiredRecordings();
+
+    const recording = {
+      mimeType: audio.type || 'audio/webm',
+      size: audio.size,
+      data: Buffer.from(await audio.arrayBuffer()),
+      expiresAt: getRecordingExpiry(),
+    };
+
+    await db
+      .insert(recordings)
+      .values({ attemptId: result.attemptId, ...recording })
+      .onConflictDoUpdate({ target: recordings.attemptId, set: recording });
+
+    console.log(`Stored ${audio.size} byte recording for attempt ${result.attemptId}`);
+    return NextResponse.json({ stored: true, expiresAt: recording.expiresAt });
+  } catch (error) {
+    console.error('Error storing recording:', error);
+    return NextResponse.json(
+      { error: `Failed to store recording: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+// Play back the recording of an attempt
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const result = await findOwnAttempt(context);
+    if (result.error) {
+      return result.error;
+    }
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.attemptId, result.attemptId),
+    });
+
+    if (!recording || recording.expiresAt < new Date()) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    return new Response(new Uint8Array(recording.data), {
+      headers: {
+        'Content-Type': recording.mimeType,
+        'Content-Length': String(recording.size),
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error loading recording:', error);
+    return NextResponse.json(
+      { error: `Failed to load recording: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { getLlmProvider, type ChatMessage } from '~/server/llm';
+import type { Scenario } from '~/components/ui/scenario-dropdown';
+import type { DialogueTurn, PartnerReply } from '~/lib/services/conversation-service';
+import {
+  DEFAULT_PRACTICE_LANGUAGE,
+  isPracticeLanguage,
+  practiceLanguageNames,
+  type PracticeLanguage
+} from '~/lib/languages';
+
+// Define interface for the request body
+interface ConversationRequest {
+  scenario: Pick<Scenario, 'description' | 'prompt'>;
+  history: DialogueTurn[];
+  language?: PracticeLanguage;
+}
+
+// Generate the system prompt that puts the LLM in character for the scenario
+function generateSystemPrompt(scenario: ConversationRequest['scenario'], language: PracticeLanguage): string {
+  const languageName = practiceLanguageNames[language];
+  return `
+You are role-playing with someone who is practicing their ${languageName} speaking skills. Speak only ${languageName}, even if the scenario is described in another language.
+
+Scenario (from the learner's point of view): ${scenario.description}
+The learner's task: ${scenario.prompt}
+
+Play the other person in this scenario, for example the receptionist, barista, store employee or coworker. Stay in character at all times and never give feedback or mention that this is practice.
+
+- Reply the way that person would speak out loud: one or two short, natural sentences.
+- React to what the learner actually said. If something is unclear, ask about it like a real person would.
+- When the learner has completed their task or says goodbye, close the conversation politely.
+
+Format your response as JSON with the following structure:
+{
+  "reply": "What you say next",
+  "isComplete": false
+}
+
+Set "isComplete" to true only in the message where you close the conversation.
+`;
+}
+
+export async function POST(request: Request) {
+  try {
+    const { scenario, history, language = DEFAULT_PRACTICE_LANGUAGE } = await request.json() as ConversationRequest;
+
+    // Check if the language model provider is configured
+    const provider = getLlmProvider();
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Language model API key is not configured' },
+        { status: 500 }
+      );
+    }
+
+    if (!scenario?.description || !Array.isArray(history)) {
+      return NextResponse.json(
+        { error: 'Scenario and dialogue history are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPracticeLanguage(language)) {
+      return NextResponse.json(
+        { error: `Unsupported language: ${String(language)}` },
+        { status: 400 }
+      );
+    }
+
+    // The partner's lines are the assistant's, the learner's are the user's
+    const messages: ChatMessage[] = [
+      { role: 'system', content: generateSystemPrompt(scenario, language) },
+      ...history.map((turn): ChatMessage => ({
+        role: turn.role === 'partner' ? 'assistant' : 'user',
+        content: turn.text
+      }))
+    ];
+
+    // With no history yet, the partner opens the conversation
+    if (history.length === 0) {
+      messages.push({ role: 'user', content: '(The conversation is starting. Say your opening line.)' });
+    }
+
+    const content = await provider.chat(messages, { temperature: 0.7, json: true });
+
+    const partnerReply = JSON.parse(content) as Partial<PartnerReply>;
+
+    if (!partnerReply.reply?.trim()) {
+      throw new Error(`${provider.name} returned an empty reply`);
+    }
+
+    return NextResponse.json({
+      reply: partnerReply.reply.trim(),
+      isComplete: partnerReply.isComplete === true
+    } satisfies PartnerReply);
+  } catch (error) {
+    console.error('Error in conversation API route:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate partner reply' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,111 +1,338 @@
 import { NextResponse } from 'next/server';
-import { env } from '~/env';
+import { getLlmProvider, LlmProviderError, type ChatMessage } from '~/server/llm';
 import type { Scenario } from '~/components/ui/scenario-dropdown';
-import type { FeedbackResponse } from '~/lib/services/groq-service';
+import {
+  MAX_RUBRIC_SCORE,
+  MIN_RUBRIC_SCORE,
+  type FeedbackErrorCode,
+  type FeedbackContext,
+  type FeedbackErrorResponse,
+  type FeedbackResponse
+} from '~/lib/services/groq-service';
+import { describeIssues, feedbackSchema } from '~/lib/feedback-schema';
+import { pronunciationIssueLabels, type PronunciationReport } from '~/lib/analysis/pronunciation';
+import type { FluencyReport } from '~/lib/analysis/fluency';
+import type { TimeUsage } from '~/lib/timed-response-machine';
+import type { ReadingReport } from '~/lib/analysis/alignment';
+import type { TranscriptCorrection } from '~/lib/analysis/transcript-edits';
+import {
+  DEFAULT_PRACTICE_LANGUAGE,
+  isPracticeLanguage,
+  practiceLanguageNames,
+  type PracticeLanguage
+} from '~/lib/languages';
 
-// Groq API endpoints
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
+// How many times the model is asked to repair off-schema feedback before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Only the most problematic words are listed in the prompt
+const MAX_FLAGGED_WORDS = 15;
 
 // Define interface for the request body
-interface FeedbackRequest {
+interface FeedbackRequest extends FeedbackContext {
   scenario: Scenario;
   transcription: string;
 }
 
-// Define interface for the Groq API response
-interface GroqApiResponse {
-  choices: {
-    message: {
-      content: string;
-    };
-  }[];
+// Respond with a typed error code that GroqService turns into a FeedbackError
+function errorResponse(code: FeedbackErrorCode, error: string, status: number) {
+  return NextResponse.json({ error, code } satisfies FeedbackErrorResponse, { status });
+}
+
+// Describe what the user said - a single answer, a reading of the reference text, or a whole role-play conversation
+function describeResponse(transcription: string, context: FeedbackContext): string {
+  const { dialogue, reading } = context;
+  if (reading) {
+    return `The user was asked to read this text aloud: "${reading.referenceText}"
+What they said (transcribed): "${transcription}"`;
+  }
+
+  if (!dialogue || dialogue.length === 0) {
+    return `The user's spoken response (transcribed): "${transcription}"`;
+  }
+
+  const lines = dialogue
+    .map(turn => `${turn.role === 'learner' ? 'User' : 'Other person'}: "${turn.text}"`)
+    .join('\n');
+
+  return `The user held a role-play conversation with the other person in the scenario (the user's lines are transcribed from speech):
+${lines}
+
+Evaluate the user's side of the whole conversation, including how well they responded to the other person.`;
+}
+
+// Summarize the measured pronunciation, so the model doesn't have to guess from text alone
+function describePronunciation(report?: PronunciationReport): string {
+  if (!report || report.words.length === 0) {
+    return 'No pronunciation measurements are available. You cannot hear the audio, so do not comment on pronunciation, tone or intonation.';
+  }
+
+  const flagged = report.words
+    .filter(word => word.issues.length > 0)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, MAX_FLAGGED_WORDS)
+    .map(word => {
+      const issues = word.issues.map(issue => pronunciationIssueLabels[issue].toLowerCase()).join(', ');
+      const confidence = word.confidence !== undefined ? `, recognizer confidence ${Math.round(word.confidence * 100)}%` : '';
+      return `- "${word.word}": ${issues}${confidence}`;
+    });
+
+  return `Pronunciation measurements (from the speech recognizer${report.usedAudio ? ' and the recording' : ''}, not from listening):
+Overall pronunciation score: ${report.overallScore}/100
+${flagged.length > 0
+    ? `Words the user may have mispronounced or said unclearly:\n${flagged.join('\n')}`
+    : 'No words were flagged as unclear.'}
+
+You cannot hear the audio. Base any comments on pronunciation only on these measurements, and do not comment on tone or intonation.`;
+}
+
+// Summarize the measured fluency; a comfortable conversational pace is roughly 120-160 words per minute
+function describeFluency(report?: FluencyReport): string {
+  if (!report) {
+    return '';
+  }
+
+  const fillers = Object.entries(report.fillerCounts)
+    .filter(([, count]) => count > 0)
+    .map(([filler, count]) => `"${filler}" x${count}`);
+  const lines = [
+    `Filler words: ${report.fillerCount} (${report.fillersPerHundredWords} per 100 words)${fillers.length > 0 ? ` - ${fillers.join(', ')}` : ''}`
+  ];
+
+  if (report.wordsPerMinute !== undefined) {
+    lines.unshift(`Speaking rate: ${report.wordsPerMinute} words per minute over ${report.speakingSeconds} seconds (a comfortable conversational pace is about 120-160)`);
+    lines.push(`Pauses of half a second or more: ${report.pauseCount}, average ${report.averagePauseSeconds}s, longest ${report.longestPauseSeconds}s`);
+  }
+
+  return `Fluency measurements:
+${lines.map(line => `- ${line}`).join('\n')}
+
+Comment on fluency only where these measurements show a problem or a clear strength.`;
+}
+
+// Describe how a timed answer used its time, so the model can comment on it like an examiner would
+function describeTimeUsage(usage?: TimeUsage): string {
+  if (!usage) {
+    return '';
+  }
+
+  const preparation = usage.prepSeconds > 0
+    ? `${usage.prepSeconds} seconds to prepare (they took ${usage.preparedSeconds}) and `
+    : '';
+  const ending = usage.usedSeconds >= usage.speakSeconds
+    ? 'They were cut off when the time ran out.'
+    : 'They finished before the time ran out.';
+
+  return `This was a timed response: the user had ${preparation}${usage.speakSeconds} seconds to answer, and spoke for ${usage.usedSeconds} seconds. ${ending}
+Comment on how well they used the time, e.g. an answer that is far too short or unfinished.`;
 }
 
-// Generate a prompt for the Groq LLM based on the scenario and user's response
-function generatePrompt(scenario: Scenario, transcription: string): string {
+// Explain which words the recognizer misheard, so they aren't mistaken for the user's speaking errors
+function describeCorrection(correction?: TranscriptCorrection): string {
+  if (!correction || correction.edits.length === 0) {
+    return '';
+  }
+
+  const edits = correction.edits
+    .slice(0, MAX_FLAGGED_WORDS)
+    .map(edit => {
+      if (edit.recognized && edit.corrected) {
+        return `- the recognizer heard "${edit.recognized}", the user said "${edit.corrected}"`;
+      }
+      return edit.recognized
+        ? `- the recognizer heard "${edit.recognized}", which the user did not say`
+        : `- the recognizer missed "${edit.corrected}"`;
+    });
+
+  return `The user corrected the speech recognizer's transcript before submitting it. The transcript above is their corrected version; the recognizer originally heard: "${correction.recognizedText}"
+Corrections:
+${edits.join('\n')}
+
+Treat these as recognition errors, not as the user's grammar or vocabulary mistakes. A word the recognizer misheard may still have been pronounced unclearly; you may mention that, but don't assume it.`;
+}
+
+// Summarize how closely a reading matched the reference text; the errors come from aligning the transcript word by word
+function describeReading(report?: ReadingReport): string {
+  if (!report) {
+    return '';
+  }
+
+  const errors = report.words
+    .filter(word => word.operation !== 'correct')
+    .slice(0, MAX_FLAGGED_WORDS)
+    .map(word => {
+      switch (word.operation) {
+        case 'substitution':
+          return `- said "${word.spoken}" instead of "${word.expected}"`;
+        case 'omission':
+          return `- left out "${word.expected}"`;
+        default:
+          return `- added "${word.spoken}"`;
+      }
+    });
+
+  return `Reading accuracy, from aligning the transcription with the text:
+Word error rate: ${Math.round(report.wordErrorRate * 100)}% (${report.correctCount} of ${report.referenceWordCount} words read correctly, ${report.substitutionCount} substituted, ${report.omissionCount} left out, ${report.insertionCount} added)
+${errors.length > 0 ? errors.join('\n') : 'Every word was read correctly.'}
+
+This is read-aloud practice, so the wording was given: focus on reading accuracy, pronunciation and fluency, not on what the text says. Judge grammar and vocabulary by how accurately the user reproduced the text. A substituted word may be a recognition error for a mispronounced word; say so where that seems likely.`;
+}
+
+// Tell the model which language is being practiced; the learners read the feedback in English
+function describeLanguage(language: PracticeLanguage): string {
+  if (language === 'en') {
+    return '';
+  }
+  const languageName = practiceLanguageNames[language];
+  return `The user is practicing ${languageName}, so evaluate their ${languageName}: grammar, vocabulary and politeness by ${languageName} standards, e.g. the right register (formal or informal "you") for the situation. Write your feedback in English, quoting the user's ${languageName} words as they said them and giving corrected ${languageName} phrasing where it helps.`;
+}
+
+// Generate a prompt for the LLM based on the scenario and user's response
+function generatePrompt(scenario: Scenario, transcription: string, context: FeedbackContext): string {
+  const language = context.language ?? DEFAULT_PRACTICE_LANGUAGE;
   return `
-You are a helpful English language speaking coach. You're analyzing a response to the following scenario:
+You are a helpful ${practiceLanguageNames[language]} language speaking coach. You're analyzing a response to the following scenario:
 
 Scenario: ${scenario.description}
 Speaking task: ${scenario.prompt}
 
-The user's spoken response (transcribed): "${transcription}"
+${describeLanguage(language)}
+
+${describeResponse(transcription, context)}
+
+${describeCorrection(context.correction)}
+
+${describeReading(context.reading)}
+
+${describePronunciation(context.pronunciation)}
+
+${describeFluency(context.fluency)}
+
+${describeTimeUsage(context.timeUsage)}
 
 Please provide specific, constructive feedback on the user's response. Include:
 
 1. What aspects of the response were effective and why.
-2. What could be improved and how specifically they should improve it. Focus on tone, intonation, and pronunciation.
+2. What could be improved and how specifically they should improve it. Mention specific words from the pronunciation measurements where they are relevant.
 3. A brief overall assessment of the response's effectiveness in the given scenario.
+4. A score from ${MIN_RUBRIC_SCORE} to ${MAX_RUBRIC_SCORE} for each of the criteria below, with a one-sentence justification that refers to what the user actually said:
+   - clarity: how easy the response is to follow
+   - politeness: how appropriate the tone and register are for the situation
+   - taskCompletion: how fully the response accomplishes the speaking task
+   - grammar: how accurate the grammar is
+   - vocabulary: how varied and appropriate the word choice is
+
+Use the scores consistently: ${MIN_RUBRIC_SCORE} means poor, 3 means adequate and ${MAX_RUBRIC_SCORE} means excellent, so that scores can be compared across attempts.
 
 Format your response as JSON with the following structure:
 {
   "strengths": ["strength point 1", "strength point 2", ...],
   "improvements": ["improvement point 1", "improvement point 2", ...],
-  "overallFeedback": "A concise overall assessment"
+  "overallFeedback": "A concise overall assessment",
+  "scores": {
+    "clarity": { "score": 4, "justification": "Why this score" },
+    "politeness": { "score": 4, "justification": "Why this score" },
+    "taskCompletion": { "score": 4, "justification": "Why this score" },
+    "grammar": { "score": 4, "justification": "Why this score" },
+    "vocabulary": { "score": 4, "justification": "Why this score" }
+  }
 }
 
 Make sure each point is specific, actionable, and relevant to the scenario. Keep your response focused on language usage, clarity, politeness, and appropriateness for the situation. Don't invent details that weren't in the user's response.
 `;
 }
 
+// Parse and validate the model's output, returning the problems to send back to it on failure
+function parseFeedback(content: string): { feedback: FeedbackResponse } | { issues: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    return { issues: `The response is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  
+  const result = feedbackSchema.safeParse(json);
+  if (!result.success) {
+    return { issues: describeIssues(result.error) };
+  }
+  
+  return { feedback: result.data };
+}
+
+// Check the provider selected by LLM_PROVIDER is configured, without generating any feedback
+export function GET() {
+  const provider = getLlmProvider();
+  if (!provider) {
+    return errorResponse('PROVIDER_NOT_CONFIGURED', 'Language model API key is not configured', 500);
+  }
+
+  return NextResponse.json({ provider: provider.name, model: provider.model });
+}
+
 export async function POST(request: Request) {
+  let body: FeedbackRequest;
   try {
-    const { scenario, transcription } = await request.json() as FeedbackRequest;
+    body = await request.json() as FeedbackRequest;
+  } catch {
+    return errorResponse('BAD_REQUEST', 'Request body must be valid JSON', 400);
+  }
+
+  try {
+    const { scenario, transcription, ...context } = body;
     
-    // Check if Groq API key is available
-    if (!env.GROQ_API_KEY) {
-      return NextResponse.json(
-        { error: 'Groq API key is not configured' },
-        { status: 500 }
-      );
+    // Check if the language model provider is configured
+    const provider = getLlmProvider();
+    if (!provider) {
+      return errorResponse('PROVIDER_NOT_CONFIGURED', 'Language model API key is not configured', 500);
+    }
+
+    if (!scenario?.description || typeof transcription !== 'string' || !transcription.trim()) {
+      return errorResponse('BAD_REQUEST', 'Scenario and transcription are required', 400);
+    }
+
+    if (context.language !== undefined && !isPracticeLanguage(context.language)) {
+      return errorResponse('BAD_REQUEST', `Unsupported language: ${String(context.language)}`, 400);
     }
 
     // Generate prompt for the LLM
-    const prompt = generatePrompt(scenario, transcription);
+    const prompt = generatePrompt(scenario, transcription, context);
     
-    // Call Groq API
-    const response = await fetch(GROQ_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${env.GROQ_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: 'llama3-70b-8192',
-        messages: [
-          { role: 'system', content: 'You are a helpful English language speaking coach that provides specific, actionable feedback.' },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.5,
-        response_format: { type: 'json_object' }
-      })
-    });
+    const messages: ChatMessage[] = [
+      { role: 'system', content: `You are a helpful ${practiceLanguageNames[context.language ?? DEFAULT_PRACTICE_LANGUAGE]} language speaking coach that provides specific, actionable feedback.` },
+      { role: 'user', content: prompt }
+    ];
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Groq API error (${response.status}): ${errorText}`);
+    // Ask for feedback, then feed any validation problems back to the model so it can repair its answer
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const content = await provider.chat(messages, { temperature: 0.5, json: true });
+      const parsed = parseFeedback(content);
+      
+      if ('feedback' in parsed) {
+        return NextResponse.json(parsed.feedback);
+      }
+      
+      console.warn(`Feedback from ${provider.name} failed validation (attempt ${attempt + 1}):`, parsed.issues);
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your response does not match the required JSON structure:\n${parsed.issues}\n\nReply again with the complete corrected JSON object only.`
+        }
+      );
     }
     
-    const data = await response.json() as GroqApiResponse;
+    return errorResponse(
+      'INVALID_OUTPUT',
+      `The feedback model returned malformed feedback ${MAX_REPAIR_ATTEMPTS + 1} times`,
+      502
+    );
+  } catch (error) {
+    console.error('Error in feedback API route:', error);
     
-    // Check if response has valid format using optional chaining
-    if (!data.choices?.[0]?.message?.content) {
-      throw new Error('Invalid response format from Groq API');
+    if (error instanceof LlmProviderError) {
+      return errorResponse('PROVIDER_ERROR', 'The feedback model is unavailable right now', 502);
     }
     
-    // Parse the response content as JSON
-    const feedbackContent = JSON.parse(data.choices[0].message.content) as FeedbackResponse;
-    
-    return NextResponse.json({
-      strengths: feedbackContent.strengths || [],
-      improvements: feedbackContent.improvements || [],
-      overallFeedback: feedbackContent.overallFeedback || 'No feedback available'
-    });
-  } catch (error) {
-    console.error('Error in feedback API route:', error);
-    return NextResponse.json(
-      { error: 'Failed to analyze speaking response' },
-      { status: 500 }
-    );
+    return errorResponse('INTERNAL_ERROR', 'Failed to analyze speaking response', 500);
   }
-} 
\ No newline at end of file
+}
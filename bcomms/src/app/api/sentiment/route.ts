@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { env } from '~/env';
+import { DEFAULT_PRACTICE_LANGUAGE, isPracticeLanguage, unsupportedLanguageMessage } from '~/lib/languages';
+import { SENTIMENT_LANGUAGES } from '~/lib/services/rev-ai-sentiment-service';
 
 // Rev.ai API endpoints
 const REV_AI_SENTIMENT_URL = 'https://api.rev.ai/sentiment_analysis/v1';
@@ -9,12 +11,13 @@ interface SentimentRequest {
   action: string;
   jobId?: string;
   text?: string;
+  language?: string;
 }
 
 export async function POST(request: Request) {
   try {
     const requestData = await request.json() as SentimentRequest;
-    const { action, jobId, text } = requestData;
+    const { action, jobId, text, language = DEFAULT_PRACTICE_LANGUAGE } = requestData;
     
     // Check if Rev.ai API key is available
     if (!env.REVAI_API_KEY) {
@@ -35,6 +38,20 @@ export async function POST(request: Request) {
         );
       }
 
+      if (!isPracticeLanguage(language)) {
+        return NextResponse.json(
+          { error: `Unsupported language: ${language}` },
+          { status: 400 }
+        );
+      }
+
+      if (!SENTIMENT_LANGUAGES.includes(language)) {
+        return NextResponse.json(
+          { error: unsupportedLanguageMessage('Sentiment analysis', language) },
+          { status: 400 }
+        );
+      }
+
       console.log('Submitting text for sentiment analysis');
       
       // Submit text for sentiment analysis
@@ -48,7 +65,7 @@ export async function POST(request: Request) {
         },
         body: JSON.stringify({
           text: text,
-          language: 'en'
+          language
         })
       });
 
@@ -1,21 +1,232 @@
 import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
 import { env } from '~/env';
+import { auth } from '~/server/auth';
+import { db } from '~/server/db';
+import { scenarios } from '~/server/db/schema';
+import { getReadyCustomVocabularyId } from '~/server/transcribe/custom-vocabulary';
+import { STREAM_RELAY_PATH, createStreamTicket } from '~/server/transcribe/stream-ticket';
+import { WHISPER_UPLOAD_PATH, getWhisperMode } from '~/server/transcribe/whisper';
+import { getTranscriptionJob, getUploadUnavailableReason, submitTranscriptionJob } from '~/server/transcribe/jobs';
+import { MAX_RECORDING_BYTES } from '~/server/recordings';
+import { CUSTOM_VOCABULARY_LANGUAGES, type TranscriptionSetup } from '~/lib/services/transcription-engine';
+import { isSupportedUpload } from '~/lib/services/transcription-job';
+import { DEFAULT_PRACTICE_LANGUAGE, isPracticeLanguage } from '~/lib/languages';
 
-// Rev.ai API endpoint for WebSocket streaming
-const REV_AI_STREAMING_URL = 'wss://api.rev.ai/speechtotext/v1/stream';
+// Room in an upload's form for the other fields and the multipart boundaries
+const MAX_FORM_OVERHEAD_BYTES = 64 * 1024;
 
-// Define interface for the request payload
+// Define interface for the request payload. Uploaded recordings come as form data instead, see handleUpload.
 interface TranscribeRequest {
   action: string;
   jobId?: string;
-  // We'll include audio property but mark it as optional since we don't use it for 'setup' action
-  audio?: Blob;
+  scenarioId?: number; // The scenario being practiced, to attach its custom vocabulary
+}
+
+/**
+ * The Rev.ai id of the scenario's custom vocabulary when it's ready. Recognition works without
+ * it, so any failure here only means the stream opens without the vocabulary.
+ */
+async function findCustomVocabularyId(scenarioId: number | undefined): Promise<string | undefined> {
+  if (typeof scenarioId !== 'number') {
+    return undefined;
+  }
+
+  try {
+    const scenario = await db.query.scenarios.findFirst({
+      where: eq(scenarios.id, scenarioId),
+      columns: { customVocabulary: true },
+    });
+    return scenario ? await getReadyCustomVocabularyId(scenario.customVocabulary) : undefined;
+  } catch (error) {
+    console.error('Failed to look up custom vocabulary:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Streams and uploads run billable transcription on the account, and upload transcripts belong to
+ * whoever uploaded them, so they are only for signed-in users
+ */
+async function getSessionUserId(): Promise<string | null> {
+  const session = await auth();
+  return session?.user.id ?? null;
+}
+
+function signInRequired(message: string) {
+  return NextResponse.json(
+    { error: message },
+    { status: 401 }
+  );
+}
+
+/**
+ * Start an asynchronous transcription job for a recording made earlier. The form has the
+ * `audio` file, its `language` and optionally the `scenarioId` for the custom vocabulary.
+ */
+async function handleUpload(request: Request, userId: string) {
+  const unavailableReason = getUploadUnavailableReason();
+  if (unavailableReason) {
+    console.error(`Recording uploads are unavailable: ${unavailableReason}`);
+    return NextResponse.json(
+      { error: unavailableReason },
+      { status: 500 }
+    );
+  }
+
+  // The form is read into memory, so one that's too big is turned away before reading it
+  if (Number(request.headers.get('content-length')) > MAX_RECORDING_BYTES + MAX_FORM_OVERHEAD_BYTES) {
+    return NextResponse.json(
+      { error: 'Audio file is too large' },
+      { status: 413 }
+    );
+  }
+
+  const formData = await request.formData();
+  const audio = formData.get('audio');
+  const language = formData.get('language') ?? DEFAULT_PRACTICE_LANGUAGE;
+  const scenarioId = Number(formData.get('scenarioId') ?? NaN);
+
+  if (formData.get('action') !== 'submitJob') {
+    return NextResponse.json(
+      { error: 'Invalid action' },
+      { status: 400 }
+    );
+  }
+
+  if (!(audio instanceof File) || audio.size === 0) {
+    return NextResponse.json(
+      { error: 'An audio file is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!isSupportedUpload(audio)) {
+    return NextResponse.json(
+      { error: 'Please upload a wav, mp3, m4a or webm file' },
+      { status: 415 }
+    );
+  }
+
+  if (audio.size > MAX_RECORDING_BYTES) {
+    return NextResponse.json(
+      { error: 'Audio file is too large' },
+      { status: 413 }
+    );
+  }
+
+  if (!isPracticeLanguage(language)) {
+    return NextResponse.json(
+      { error: 'Unsupported language' },
+      { status: 400 }
+    );
+  }
+
+  const customVocabularyId = CUSTOM_VOCABULARY_LANGUAGES.includes(language)
+    ? await findCustomVocabularyId(Number.isInteger(scenarioId) ? scenarioId : undefined)
+    : undefined;
+  console.log(`Submitting ${audio.size} byte upload ${audio.name} for transcription`);
+
+  const jobId = await submitTranscriptionJob(userId, audio, audio.name || 'recording.webm', language, customVocabularyId);
+  return NextResponse.json({ jobId });
+}
+
+// Report on one of the user's transcription jobs, with the transcript once it's done
+async function handleJobStatus(jobId: string | undefined, userId: string) {
+  if (!jobId) {
+    return NextResponse.json(
+      { error: 'Job ID is required' },
+      { status: 400 }
+    );
+  }
+
+  const job = await getTranscriptionJob(userId, jobId);
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Transcription job not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(job);
+}
+
+// Setup for a local Whisper server - streamed through the relay, or uploaded over HTTP
+function handleWhisperAction(action: string) {
+  const mode = getWhisperMode();
+  if (!mode) {
+    console.error('Whisper server URL is not configured in environment variables');
+    return NextResponse.json(
+      { error: 'Whisper server URL is not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (action !== 'setup') {
+    return NextResponse.json(
+      { error: 'Invalid action' },
+      { status: 400 }
+    );
+  }
+
+  if (mode === 'http') {
+    return NextResponse.json({
+      engine: 'whisper',
+      mode,
+      uploadUrl: WHISPER_UPLOAD_PATH
+    } satisfies TranscriptionSetup);
+  }
+
+  const { ticket, expiresAt } = createStreamTicket();
+  return NextResponse.json({
+    engine: 'whisper',
+    mode,
+    streamingUrl: STREAM_RELAY_PATH,
+    ticket,
+    expiresAt
+  } satisfies TranscriptionSetup);
+}
+
+// Check that the configured engine is set up and whether the user is signed in to use it, e.g. when
+// the page loads. Unlike setup it needs no session and issues no relay ticket.
+export async function GET() {
+  const isWhisper = env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE === 'whisper';
+  if (isWhisper ? !getWhisperMode() : !env.REVAI_API_KEY) {
+    return NextResponse.json(
+      { error: isWhisper ? 'Whisper server URL is not configured' : 'Rev.ai API key is not configured' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    engine: env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE,
+    signedIn: Boolean(await getSessionUserId())
+  });
 }
 
 export async function POST(request: Request) {
   try {
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const userId = await getSessionUserId();
+      return userId ? await handleUpload(request, userId) : signInRequired('Sign in to upload recordings');
+    }
+
     const requestData = await request.json() as TranscribeRequest;
-    const { action, jobId } = requestData;
+    const { action, jobId, scenarioId } = requestData;
+
+    if (action === 'jobStatus') {
+      const userId = await getSessionUserId();
+      return userId ? await handleJobStatus(jobId, userId) : signInRequired('Sign in to upload recordings');
+    }
+
+    // Relay tickets are only issued to signed-in users, so the relay is not an open proxy
+    if (action === 'setup' && !await getSessionUserId()) {
+      return signInRequired('Sign in to practice speaking');
+    }
+    
+    if (env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE === 'whisper') {
+      return handleWhisperAction(action);
+    }
     
     // Check if Rev.ai API key is available
     if (!env.REVAI_API_KEY) {
@@ -28,13 +239,19 @@ export async function POST(request: Request) {
 
     // Different actions based on the request
     if (action === 'setup') {
-      console.log('Providing Rev.ai API key and streaming URL');
+      console.log('Issuing streaming relay ticket');
       
-      // Return the API key and base URL - client will construct the full URL with parameters
+      // Return a short-lived ticket for our own relay - the Rev.ai API key stays on the server.
+      // The client will construct the full URL with parameters
+      const { ticket, expiresAt } = createStreamTicket();
+      const customVocabularyId = await findCustomVocabularyId(scenarioId);
       return NextResponse.json({ 
-        apiKey: env.REVAI_API_KEY,
-        streamingUrl: REV_AI_STREAMING_URL
-      });
+        engine: 'revai',
+        streamingUrl: STREAM_RELAY_PATH,
+        ticket,
+        expiresAt,
+        customVocabularyId
+      } satisfies TranscriptionSetup);
     } else if (action === 'endStream') {
       // Handle endStream action
       if (!jobId) {
@@ -55,7 +272,6 @@ export async function POST(request: Request) {
       });
     }
     
-    // For future use if we need to handle other Rev.ai API actions
     return NextResponse.json(
       { error: 'Invalid action' },
       { status: 400 }
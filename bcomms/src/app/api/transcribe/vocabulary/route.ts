@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { auth } from '~/server/auth';
+import { db } from '~/server/db';
+import { scenarios } from '~/server/db/schema';
+import {
+  buildCustomVocabulary,
+  deleteCustomVocabulary,
+  getCustomVocabulary,
+  isCustomVocabularyEnabled,
+  listCustomVocabularies
+} from '~/server/transcribe/custom-vocabulary';
+
+interface VocabularyRequest {
+  scenarioId?: number;
+  rebuild?: boolean; // Build a new vocabulary even if one exists for the same phrases
+}
+
+/**
+ * Managing vocabularies is for the instructors who edit the scenario library, and needs Rev.ai
+ * @returns the error response to send, or null when the request may go ahead
+ */
+async function checkAccess() {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Sign in to manage custom vocabularies' }, { status: 401 });
+  }
+
+  if (session.user.role !== 'instructor') {
+    return NextResponse.json({ error: 'Only instructors can manage custom vocabularies' }, { status: 403 });
+  }
+
+  if (!isCustomVocabularyEnabled()) {
+    return NextResponse.json(
+      { error: 'Custom vocabularies need the Rev.ai transcription engine and REVAI_API_KEY' },
+      { status: 500 }
+    );
+  }
+
+  return null;
+}
+
+async function findScenarioVocabulary(scenarioId: number): Promise<string[] | undefined> {
+  const scenario = await db.query.scenarios.findFirst({
+    where: eq(scenarios.id, scenarioId),
+    columns: { customVocabulary: true },
+  });
+  return scenario?.customVocabulary;
+}
+
+// List the cached vocabularies, or with ?scenarioId= the one for a scenario
+export async function GET(request: Request) {
+  try {
+    const accessError = await checkAccess();
+    if (accessError) {
+      return accessError;
+    }
+
+    const scenarioId = new URL(request.url).searchParams.get('scenarioId');
+    if (scenarioId === null) {
+      return NextResponse.json({ vocabularies: await listCustomVocabularies() });
+    }
+
+    const phrases = await findScenarioVocabulary(Number(scenarioId));
+    if (!phrases) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ vocabulary: await getCustomVocabulary(phrases) });
+  } catch (error) {
+    console.error('Error listing custom vocabularies:', error);
+    return NextResponse.json(
+      { error: `Failed to list custom vocabularies: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+// Build the vocabulary for a scenario, e.g. to retry one that failed
+export async function POST(request: Request) {
+  try {
+    const accessError = await checkAccess();
+    if (accessError) {
+      return accessError;
+    }
+
+    const { scenarioId, rebuild = false } = await request.json() as VocabularyRequest;
+    if (typeof scenarioId !== 'number') {
+      return NextResponse.json({ error: 'A scenario id is required' }, { status: 400 });
+    }
+
+    const phrases = await findScenarioVocabulary(scenarioId);
+    if (!phrases) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+    }
+
+    const vocabulary = await buildCustomVocabulary(phrases, { rebuild });
+    if (!vocabulary) {
+      return NextResponse.json({ error: 'The scenario has no custom vocabulary' }, { status: 400 });
+    }
+
+    return NextResponse.json({ vocabulary });
+  } catch (error) {
+    console.error('Error building custom vocabulary:', error);
+    return NextResponse.json(
+      { error: `Failed to build custom vocabulary: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a vocabulary by ?phrasesHash=, on Rev.ai and from the cache
+export async function DELETE(request: Request) {
+  try {
+    const accessError = await checkAccess();
+    if (accessError) {
+      return accessError;
+    }
+
+    const phrasesHash = new URL(request.url).searchParams.get('phrasesHash');
+    if (!phrasesHash) {
+      return NextResponse.json({ error: 'A phrasesHash is required' }, { status: 400 });
+    }
+
+    if (!await deleteCustomVocabulary(phrasesHash)) {
+      return NextResponse.json({ error: 'Vocabulary not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting custom vocabulary:', error);
+    return NextResponse.json(
+      { error: `Failed to delete custom vocabulary: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
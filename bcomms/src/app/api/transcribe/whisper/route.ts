@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { auth } from '~/server/auth';
+import { getWhisperMode, transcribeWithWhisper } from '~/server/transcribe/whisper';
+import { MAX_RECORDING_BYTES } from '~/server/recordings';
+import { DEFAULT_PRACTICE_LANGUAGE, isPracticeLanguage } from '~/lib/languages';
+
+export async function POST(request: Request) {
+  try {
+    // Like the relay, the Whisper server is only for signed-in users
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Sign in to practice speaking' },
+        { status: 401 }
+      );
+    }
+
+    if (getWhisperMode() !== 'http') {
+      return NextResponse.json(
+        { error: 'Whisper upload endpoint is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const formData = await request.formData();
+    const audio = formData.get('audio');
+    const language = formData.get('language') ?? DEFAULT_PRACTICE_LANGUAGE;
+
+    if (!(audio instanceof Blob) || audio.size === 0) {
+      return NextResponse.json(
+        { error: 'An audio file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPracticeLanguage(language)) {
+      return NextResponse.json(
+        { error: 'Unsupported language' },
+        { status: 400 }
+      );
+    }
+
+    if (audio.size > MAX_RECORDING_BYTES) {
+      return NextResponse.json(
+        { error: 'Audio file is too large' },
+        { status: 413 }
+      );
+    }
+
+    const filename = audio instanceof File && audio.name ? audio.name : 'recording.webm';
+    console.log(`Transcribing ${audio.size} bytes of audio with Whisper`);
+
+    const transcript = await transcribeWithWhisper(audio, filename, language);
+    return NextResponse.json(transcript);
+  } catch (error) {
+    console.error('Error in Whisper transcription route:', error);
+    return NextResponse.json(
+      { error: `Failed to transcribe audio: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
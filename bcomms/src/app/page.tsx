@@ -1,74 +1,146 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useReducer, useRef } from "react";
+import Link from "next/link";
+import { Upload } from "lucide-react";
 import { IPhoneFrame } from "~/components/ui/iphone-frame";
-import { MicrophoneButton, type RecordingState } from "~/components/ui/microphone-button";
+import { MicrophoneButton } from "~/components/ui/microphone-button";
+import { MicrophonePicker } from "~/components/ui/microphone-picker";
 import { ScenarioDropdown } from "~/components/ui/scenario-dropdown";
 import { FeedbackCard } from "~/components/ui/feedback-card"; 
 import type { Scenario } from "~/components/ui/scenario-dropdown";
 import { AudioRecorder } from "~/lib/services/audio-recorder";
-import { RevAiService } from "~/lib/services/rev-ai-service";
-import { RevAiSentimentService, type SentimentSummary } from "~/lib/services/rev-ai-sentiment-service";
-import { GroqService, type FeedbackResponse } from "~/lib/services/groq-service";
-
-const scenarios: Scenario[] = [
-  {
-    description: "You are calling the doctors for an appointment for a stomach problem.",
-    prompt: "What would you say when the receptionist answers?"
-  },
-  {
-    description: "You are at a busy, noisy coffee shop and need to order a specific drink and pastry.",
-    prompt: "How would you tell the barista your order clearly?"
-  },
-  {
-    description: "You are in a store and can't find the item you're looking for. You see an employee.",
-    prompt: "What would you say to the employee to ask for help?"
-  },
-  {
-    description: "You are meeting a friend's new partner for the first time at a casual social gathering.",
-    prompt: "How would you introduce yourself and start a brief conversation?"
-  },
-  {
-    description: "You need to return an item of clothing that doesn't fit to a store.",
-    prompt: "What would you say to the sales associate at the customer service desk?"
-  },
-  {
-    description: "You didn't quite understand a detail explained by a coworker/classmate about a task or assignment.",
-    prompt: "How would you approach them and ask for clarification?"
-  },
-  {
-    description: "You need to call a restaurant to make a dinner reservation for two people tonight.",
-    prompt: "What would you say when the restaurant answers the phone?"
-  },
-  {
-    description: "You are in a small team meeting (or class) and your manager (or instructor) asks for brief input from each person.",
-    prompt: "What would you say when it's your turn?"
-  },
-  {
-    description: "You are lost in an unfamiliar area and need to ask someone for directions.",
-    prompt: "How would you approach a stranger and ask for help?"
-  },
-  {
-    description: "Someone has just given you instructions for something, but you missed a key step or phrase.",
-    prompt: "What would you say to ask them to repeat or clarify without sounding like you weren't paying attention?"
-  }
-];
+import { createTranscriptionEngine } from "~/lib/services/create-transcription-engine";
+import type { TranscriptionEngine } from "~/lib/services/transcription-engine";
+import { UPLOAD_AUDIO_EXTENSIONS, isSupportedUpload, transcribeUploadedRecording } from "~/lib/services/transcription-job";
+import { RevAiSentimentService, SENTIMENT_LANGUAGES, type SentimentSummary } from "~/lib/services/rev-ai-sentiment-service";
+import {
+  FeedbackError,
+  GroqService,
+  type FeedbackContext,
+  type FeedbackErrorCode,
+  type FeedbackResponse
+} from "~/lib/services/groq-service";
+import { analyzePronunciation } from "~/lib/analysis/pronunciation";
+import { analyzeFluency } from "~/lib/analysis/fluency";
+import { alignReading } from "~/lib/analysis/alignment";
+import { diffTranscript } from "~/lib/analysis/transcript-edits";
+import { decodeAudio } from "~/lib/analysis/audio-features";
+import { uploadAttemptRecording } from "~/lib/services/attempt-recording";
+import { ConversationService } from "~/lib/services/conversation-service";
+import { SpeechSynthesisService } from "~/lib/services/speech-synthesis-service";
+import { conversationReducer, initialConversationState } from "~/lib/conversation-machine";
+import {
+  initialRecordingState,
+  recordingReducer,
+  recordingWords,
+  STOP_TIMEOUT_MS,
+  submittedTranscript
+} from "~/lib/recording-machine";
+import {
+  formatCountdown,
+  initialTimedResponseState,
+  phaseEndsAt,
+  timedResponseReducer,
+  timeUsage
+} from "~/lib/timed-response-machine";
+import { ConversationView } from "~/components/ui/conversation-view";
+import { LiveTranscript } from "~/components/ui/live-transcript";
+import { TranscriptEditor } from "~/components/ui/transcript-editor";
+import { CountdownOverlay } from "~/components/ui/countdown-overlay";
+import { Button } from "~/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "~/components/ui/select";
+import { cn } from "~/lib/utils";
+import {
+  DEFAULT_PRACTICE_LANGUAGE,
+  practiceLanguageNames,
+  practiceLanguages,
+  practiceLanguageTags,
+  unsupportedLanguageMessage,
+  type PracticeLanguage
+} from "~/lib/languages";
+import { AttemptHistory } from "~/app/_components/attempt-history";
+import { api } from "~/trpc/react";
+import { env } from "~/env";
+
+// Answer the scenario once, read its reference text aloud, or hold a role-play conversation
+type PracticeMode = 'single' | 'readAloud' | 'conversation';
+
+// How long the learner can stay quiet after speaking before the recording stops by itself
+const AUTO_STOP_SILENCE_MS = 3000;
+
+// What to tell the user for each typed error from the feedback API
+const feedbackErrorMessages: Record<FeedbackErrorCode, string> = {
+  BAD_REQUEST: 'Your response could not be sent for analysis. Please record it again.',
+  PROVIDER_NOT_CONFIGURED: 'API key error: Please check your language model provider setup (LLM_PROVIDER and its API key).',
+  PROVIDER_ERROR: 'The feedback service is unavailable right now. Please try again in a moment.',
+  INVALID_OUTPUT: 'The feedback service returned an incomplete result. Please submit your response again.',
+  INTERNAL_ERROR: 'Something went wrong while analyzing your response. Please try again.'
+};
 
 export default function Home() {
+  const [practiceLanguage, setPracticeLanguage] = useState<PracticeLanguage>(DEFAULT_PRACTICE_LANGUAGE);
+  const { data: scenarios = [], isLoading: isLoadingScenarios } = api.scenario.list.useQuery({ language: practiceLanguage });
   const [selectedScenario, setSelectedScenario] = useState<Scenario | null>(null);
-  const [recordingState, setRecordingState] = useState<RecordingState>('idle');
-  const [transcription, setTranscription] = useState('');
+  const [recording, dispatchRecording] = useReducer(recordingReducer, initialRecordingState);
+  const { status: recordingState, transcription, audio: recordedAudio } = recording;
+  const transcriptWords = recordingWords(recording);
   const [feedback, setFeedback] = useState<FeedbackResponse | undefined>(undefined);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showFeedback, setShowFeedback] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [apiStatus, setApiStatus] = useState<{ revai: boolean; groq: boolean; sentiment: boolean } | null>(null);
+  const [apiStatus, setApiStatus] = useState<{ transcription: boolean; feedback: boolean; sentiment: boolean; signedIn: boolean } | null>(null);
+  const [practiceMode, setPracticeMode] = useState<PracticeMode>('single');
+  const [speakReplies, setSpeakReplies] = useState(true);
+  const [autoStop, setAutoStop] = useState(true);
+  const [microphoneId, setMicrophoneId] = useState<string | undefined>(undefined);
+  const [microphoneLevel, setMicrophoneLevel] = useState(0);
+  const [conversation, dispatchConversation] = useReducer(conversationReducer, initialConversationState);
+  const [timed, dispatchTimed] = useReducer(timedResponseReducer, initialTimedResponseState);
+  const timedEndsAt = phaseEndsAt(timed);
+  const isTimed = practiceMode === 'single' && selectedScenario?.speakSeconds !== undefined;
+  // The language being spoken; a selected scenario always belongs to the practice language
+  const language = selectedScenario?.language ?? practiceLanguage;
+  const speechLanguageTag = practiceLanguageTags[language];
+  const canSpeakReplies = SpeechSynthesisService.hasVoiceFor(speechLanguageTag);
+  const isSignedOut = apiStatus?.signedIn === false;
+  const sentimentUnavailableReason = apiStatus?.sentiment && !SENTIMENT_LANGUAGES.includes(language)
+    ? unsupportedLanguageMessage('Sentiment analysis', language)
+    : undefined;
 
   // References to our services
   const audioRecorderRef = useRef<AudioRecorder | null>(null);
-  const revAiServiceRef = useRef<RevAiService | null>(null);
+  const transcriptionEngineRef = useRef<TranscriptionEngine | null>(null);
   const groqServiceRef = useRef<GroqService | null>(null);
   const sentimentServiceRef = useRef<RevAiSentimentService | null>(null);
+  const recordingStartedAtRef = useRef<Date | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null); // Stops waiting for an abandoned upload's transcript
+  const conversationServiceRef = useRef<ConversationService | null>(null);
+  const speechSynthesisRef = useRef<SpeechSynthesisService | null>(null);
+  const conversationStartedAtRef = useRef<Date | null>(null);
+  const speakRepliesRef = useRef(speakReplies);
+  speakRepliesRef.current = speakReplies;
+
+  // Save submitted attempts to the signed-in user's practice history
+  const utils = api.useUtils();
+  const saveAttempt = api.attempt.create.useMutation({
+    onSuccess: async () => {
+      await utils.attempt.invalidate();
+    },
+    onError: (error) => {
+      // Practicing needs a session, but one that expired since the page loaded just isn't kept
+      if (error.data?.code !== 'UNAUTHORIZED') {
+        console.error('Failed to save attempt:', error);
+      }
+    }
+  });
 
   // Check API availability
   useEffect(() => {
@@ -77,42 +149,37 @@ export default function Home() {
     
     async function checkApiAvailability() {
       try {
-        // Check Rev.ai API
-        const revaiResponse = await fetch('/api/transcribe', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ action: 'setup' })
-        });
-        
-        const revaiAvailable = revaiResponse.ok;
+        // Check the speech-to-text engine (Rev.ai or a local Whisper server) is configured,
+        // and that the learner is signed in to use it
+        const transcriptionResponse = await fetch('/api/transcribe');
         
-        // Check Groq API by making a minimal request
-        const groqResponse = await fetch('/api/feedback', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            scenario: scenarios[0], 
-            transcription: 'Test transcription for API check' 
-          })
-        });
+        const transcriptionAvailable = transcriptionResponse.ok;
+        const { signedIn } = transcriptionAvailable
+          ? await transcriptionResponse.json() as { signedIn: boolean }
+          : { signedIn: false };
         
-        const groqAvailable = groqResponse.ok;
+        // Check the language model provider selected by LLM_PROVIDER is configured
+        const feedbackResponse = await fetch('/api/feedback');
+        const feedbackAvailable = feedbackResponse.ok;
         
-        // Check sentiment analysis API (uses the same Rev.ai API key)
-        const sentimentAvailable = revaiAvailable;
+        // Check sentiment analysis API (uses the same Rev.ai API key, so it's off with Whisper)
+        const sentimentAvailable = env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE === 'revai' && transcriptionAvailable;
         
         setApiStatus({
-          revai: revaiAvailable,
-          groq: groqAvailable,
-          sentiment: sentimentAvailable
+          transcription: transcriptionAvailable,
+          feedback: feedbackAvailable,
+          sentiment: sentimentAvailable,
+          signedIn
         });
         
-        if (!revaiAvailable || !groqAvailable) {
+        if (!transcriptionAvailable || !feedbackAvailable) {
           const missingApis = [];
-          if (!revaiAvailable) missingApis.push('Rev.ai');
-          if (!groqAvailable) missingApis.push('Groq');
+          if (!transcriptionAvailable) {
+            missingApis.push(env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE === 'whisper' ? 'Whisper server' : 'Rev.ai');
+          }
+          if (!feedbackAvailable) missingApis.push('language model');
           
-          setError(`Missing API keys: ${missingApis.join(', ')}. Please add them to your .env file.`);
+          setError(`Not configured: ${missingApis.join(', ')}. Please check your .env file.`);
         }
       } catch (error) {
         console.error('Error checking API availability:', error);
@@ -120,58 +187,93 @@ export default function Home() {
     }
   }, []);
 
-  // Handle automatic transition from stopping to recorded when transcription is available
+  // Give up waiting for the final transcript if the engine never sends it; uploads wait for their job
   useEffect(() => {
-    // Only process if we're in the stopping state
-    if (recordingState === 'stopping') {
-      // If we have transcription text, set a short timeout to transition to recorded state
-      if (transcription.trim()) {
-        console.log('Transcription detected while in stopping state:', transcription);
-        
-        // Use a small timeout to allow other state updates to complete
-        const timer = setTimeout(() => {
-          console.log('Auto-transitioning from stopping to recorded state due to transcription');
-          setRecordingState('recorded');
-        }, 500);
-        
-        // Clean up the timer if the component unmounts or state changes
-        return () => clearTimeout(timer);
+    if (recordingState !== 'stopping' || recording.source === 'upload') {
+      return;
+    }
+    
+    const timer = setTimeout(() => {
+      console.log('No final transcription received, settling the recording');
+      dispatchRecording({ type: 'STOP_TIMED_OUT' });
+    }, STOP_TIMEOUT_MS);
+    
+    return () => clearTimeout(timer);
+  }, [recordingState, recording.source]);
+
+  // Show recording errors, and release the microphone and connection when a recording fails
+  useEffect(() => {
+    if (recording.error) {
+      setError(recording.error);
+    }
+  }, [recording.error]);
+
+  useEffect(() => {
+    if (recordingState !== 'failed') {
+      return;
+    }
+    
+    console.log('Recording failed, cleaning up');
+    transcriptionEngineRef.current?.disconnect();
+    audioRecorderRef.current?.dispose();
+    audioRecorderRef.current = null;
+  }, [recordingState]);
+
+  // Timed responses: end the preparation when its time is up, and stop the recording when the speaking time is
+  useEffect(() => {
+    if (timedEndsAt === null) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      if (timed.phase === 'preparing') {
+        dispatchTimed({ type: 'PREPARED', now: Date.now() });
+      } else {
+        console.log('Speaking time is up, stopping the recording');
+        dispatchRecording({ type: 'STOP' });
+        audioRecorderRef.current?.stopRecording();
       }
+    }, Math.max(0, timedEndsAt - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [timed.phase, timedEndsAt]);
+
+  // Start recording once the preparation is over or skipped
+  useEffect(() => {
+    if (timed.phase === 'speaking' && timed.phaseStartedAt === null && recordingState === 'idle') {
+      void startRecordingRef.current();
+    }
+  }, [timed.phase, timed.phaseStartedAt, recordingState]);
+
+  // The speaking time ends with the recording, however it was stopped
+  useEffect(() => {
+    if (recordingState === 'stopping' || recordingState === 'recorded') {
+      dispatchTimed({ type: 'SPEAKING_STOPPED', now: Date.now() });
+    } else if (recordingState === 'failed') {
+      dispatchTimed({ type: 'RESET' });
     }
-  }, [recordingState, transcription]);
+  }, [recordingState]);
 
   // Initialize services - only once when component mounts
   useEffect(() => {
     console.log('Initializing services (component mount)');
     
-    // Initialize Rev.ai service if not already initialized
-    if (!revAiServiceRef.current) {
-      revAiServiceRef.current = new RevAiService({
+    // Initialize the configured speech-to-text engine if not already initialized
+    if (!transcriptionEngineRef.current) {
+      transcriptionEngineRef.current = createTranscriptionEngine(env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE, {
         onTranscriptionUpdate: (result) => {
-          setTranscription(result.text);
+          dispatchRecording({ type: 'TRANSCRIPT_UPDATED', result });
         },
         onTranscriptionComplete: (finalResult) => {
           console.log('Final transcription received:', finalResult.text);
-          setTranscription(finalResult.text);
-          
-          // Ensure we transition to the recorded state once we have the final transcription
-          if (recordingState === 'stopping') {
-            console.log('Transitioning from stopping to recorded state after receiving final transcription');
-            setRecordingState('recorded');
-          }
+          dispatchRecording({ type: 'TRANSCRIPT_COMPLETED', result: finalResult });
         },
         onConnected: () => {
-          console.log('Successfully connected to Rev.ai');
+          console.log('Successfully connected to the transcription service');
         },
         onError: (error) => {
-          console.error('Rev.ai error:', error);
-          setError(`Transcription error: ${error.message}`);
-          
-          // Also ensure we exit the stopping state if there's an error
-          if (recordingState === 'stopping') {
-            console.log('Error occurred while stopping, forcing state to idle');
-            setRecordingState('idle');
-          }
+          console.error('Transcription error:', error);
+          dispatchRecording({ type: 'TRANSCRIPTION_FAILED', error: error.message });
         }
       });
     }
@@ -181,6 +283,10 @@ export default function Home() {
       groqServiceRef.current = new GroqService();
     }
     
+    // Initialize the role-play services if not already initialized
+    conversationServiceRef.current ??= new ConversationService();
+    speechSynthesisRef.current ??= new SpeechSynthesisService();
+    
     // Initialize the sentiment analysis service if not already initialized
     if (!sentimentServiceRef.current) {
       sentimentServiceRef.current = new RevAiSentimentService({
@@ -198,38 +304,162 @@ export default function Home() {
         audioRecorderRef.current.dispose();
         audioRecorderRef.current = null;
       }
-      if (revAiServiceRef.current) {
-        revAiServiceRef.current.disconnect();
+      if (transcriptionEngineRef.current) {
+        transcriptionEngineRef.current.disconnect();
         // Don't set to null as we might reuse the service
       }
+      speechSynthesisRef.current?.cancel();
     };
   }, []); // Empty dependency array - only run on mount/unmount
 
-  const handleStartRecording = async () => {
+  // Fetch the role-play partner's reply whenever it's their turn
+  useEffect(() => {
+    if (conversation.phase !== 'partnerThinking' || !selectedScenario || !conversationServiceRef.current) {
+      return;
+    }
+    
+    let cancelled = false;
+    conversationServiceRef.current.getPartnerReply(selectedScenario, conversation.turns, selectedScenario.language)
+      .then(({ reply, isComplete }) => {
+        if (cancelled) return;
+        dispatchConversation({
+          type: 'PARTNER_REPLIED',
+          text: reply,
+          isComplete,
+          speak: speakRepliesRef.current && SpeechSynthesisService.hasVoiceFor(practiceLanguageTags[selectedScenario.language])
+        });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        console.error('Conversation error:', error);
+        dispatchConversation({ type: 'FAILED', error: error instanceof Error ? error.message : String(error) });
+        setError('Your conversation partner could not reply. You can keep talking or end the conversation.');
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [conversation.phase, conversation.turns, selectedScenario]);
+
+  // Speak the partner's latest line aloud, then hand the turn to the learner
+  useEffect(() => {
+    if (conversation.phase !== 'partnerSpeaking') {
+      return;
+    }
+    
+    const lastTurn = conversation.turns[conversation.turns.length - 1];
+    const speech = speechSynthesisRef.current;
+    if (!lastTurn || !speech) {
+      dispatchConversation({ type: 'PARTNER_FINISHED_SPEAKING' });
+      return;
+    }
+    
+    let cancelled = false;
+    void speech.speak(lastTurn.text, speechLanguageTag).then(() => {
+      if (!cancelled) {
+        dispatchConversation({ type: 'PARTNER_FINISHED_SPEAKING' });
+      }
+    });
+    
+    return () => {
+      cancelled = true;
+      speech.cancel();
+    };
+  }, [conversation.phase, conversation.turns, speechLanguageTag]);
+
+  // Evaluate the whole dialogue once the conversation has ended
+  useEffect(() => {
+    if (conversation.phase !== 'evaluating' || !selectedScenario) {
+      return;
+    }
+    
+    const learnerText = conversation.turns
+      .filter(turn => turn.role === 'learner')
+      .map(turn => turn.text)
+      .join(' ');
+    
+    void requestFeedbackRef.current(
+      selectedScenario,
+      learnerText,
+      conversationStartedAtRef.current ?? new Date(),
+      { dialogue: conversation.turns }
+    ).finally(() => {
+      dispatchConversation({ type: 'EVALUATED' });
+    });
+  }, [conversation.phase, conversation.turns, selectedScenario]);
+
+  /**
+   * Check that a recording can start, showing why not when it can't
+   */
+  const checkReadyToRecord = (): boolean => {
     if (!selectedScenario) {
       setError("Please select a scenario before recording.");
-      return;
+      return false;
+    }
+
+    // In a conversation, only record when it's the learner's turn
+    if (practiceMode === 'conversation' && conversation.phase !== 'learnerTurn') {
+      setError(conversation.phase === 'idle'
+        ? "Start the conversation before recording."
+        : "Please wait for your turn to speak.");
+      return false;
     }
 
     // Check if APIs are available
-    if (apiStatus && (!apiStatus.revai || !apiStatus.groq)) {
+    if (apiStatus && (!apiStatus.transcription || !apiStatus.feedback)) {
       setError("Required API keys are missing. Check your environment setup.");
+      return false;
+    }
+
+    // Recordings are transcribed on the server, which only does it for signed-in users
+    if (isSignedOut) {
+      setError("Sign in to practice speaking.");
+      return false;
+    }
+
+    const engine = transcriptionEngineRef.current;
+    if (engine && !engine.supportedLanguages.includes(language)) {
+      setError(`${unsupportedLanguageMessage('Speech recognition', language)} Please choose another practice language.`);
+      return false;
+    }
+
+    return true;
+  };
+
+  // Timed scenarios start with the preparation countdown; the recording starts when it's over
+  const handleRecord = () => {
+    if (isTimed && selectedScenario?.speakSeconds !== undefined && timed.phase === 'idle') {
+      if (!checkReadyToRecord()) return;
+      setError(null);
+      dispatchTimed({
+        type: 'PREPARE',
+        prepSeconds: selectedScenario.prepSeconds ?? 0,
+        speakSeconds: selectedScenario.speakSeconds,
+        now: Date.now()
+      });
       return;
     }
+    void handleStartRecording();
+  };
 
-    // Set state first to avoid race conditions
-    setRecordingState('recording');
+  const handleStartRecording = async () => {
+    if (!checkReadyToRecord()) {
+      return;
+    }
+
+    dispatchRecording({ type: 'START' });
+    setMicrophoneLevel(0);
     setError(null);
     setFeedback(undefined);
-    setTranscription('');
+    recordingStartedAtRef.current = new Date();
     
     try {
       console.log("Starting recording and transcription process");
       
       // Only disconnect if the service is actually ready/connected
-      if (revAiServiceRef.current?.isReady()) {
-        console.log("Disconnecting existing Rev.ai connection");
-        revAiServiceRef.current.disconnect();
+      if (transcriptionEngineRef.current?.isReady()) {
+        console.log("Disconnecting existing transcription connection");
+        transcriptionEngineRef.current.disconnect();
       }
       
       // Initialize the audio recorder first - create a new instance each time
@@ -238,215 +468,176 @@ export default function Home() {
         audioRecorderRef.current.dispose();
       }
       
+      const engine = transcriptionEngineRef.current;
+      if (!engine) {
+        throw new Error("Transcription service not initialized");
+      }
+
+      // Record in a format both the browser and the transcription engine support
+      const contentType = AudioRecorder.negotiateContentType(engine.supportedContentTypes);
+      if (!contentType) {
+        throw new Error("This browser can't record audio in a format the transcription service accepts. Please try a different browser.");
+      }
+
       audioRecorderRef.current = new AudioRecorder({
-        // Rev.ai requires specific audio format (16kHz, mono)
+        contentType,
+        deviceId: microphoneId,
+        // Rounded so the page only re-renders when the meter visibly moves
+        onLevel: (level) => setMicrophoneLevel(Math.round(level * 20) / 20),
         onDataAvailable: (data) => {
           console.log(`Audio chunk received: ${data.size} bytes, type: ${data.type}`);
-          // Only send data if we're connected to Rev.ai
-          if (revAiServiceRef.current?.isReady()) {
+          // Only send data if we're connected to the transcription service
+          if (transcriptionEngineRef.current?.isReady()) {
             try {
-              revAiServiceRef.current.sendAudioChunk(data);
+              transcriptionEngineRef.current.sendAudioChunk(data);
             } catch (error) {
               console.error("Error sending audio chunk:", error);
             }
           } else {
-            console.warn("Rev.ai not ready to receive audio chunks");
+            console.warn("Transcription service not ready to receive audio chunks");
           }
         },
-        onStop: () => {
-          console.log("Recording stopped, finalizing transcription");
+        onAutoStop: () => {
+          dispatchRecording({ type: 'STOP' });
+        },
+        autoStopAfterSilenceMs: autoStop ? AUTO_STOP_SILENCE_MS : undefined,
+        onStop: (blob, { speechDetected, trimmedSeconds }) => {
+          console.log(`Recording stopped (${blob.size} bytes), finalizing transcription`);
+          dispatchRecording({ type: 'AUDIO_STOPPED', recording: blob, speechDetected, trimmedSeconds });
+
           // Signal end of audio stream when recording stops
-          if (revAiServiceRef.current?.isReady()) {
-            revAiServiceRef.current.finishTranscription();
+          if (transcriptionEngineRef.current?.isReady()) {
+            transcriptionEngineRef.current.finishTranscription();
           } else {
-            console.warn("Rev.ai not ready when recording stopped");
+            console.warn("Transcription service not ready when recording stopped");
           }
         }
       });
 
-      // Initialize and connect to Rev.ai
-      if (!revAiServiceRef.current) {
-        throw new Error("Transcription service not initialized");
-      }
-
-      // Connect to Rev.ai before starting the recording
-      console.log("Connecting to Rev.ai");
-      await revAiServiceRef.current.connect();
-      console.log("Rev.ai connection established");
+      // Connect to the transcription service before starting the recording
+      console.log(`Connecting to the transcription service with ${contentType} in ${language}`);
+      await engine.connect(contentType, language, selectedScenario?.id);
+      console.log("Transcription service connection established");
 
       // Add a small delay to ensure the connection is fully established
       await new Promise(resolve => setTimeout(resolve, 300));
       
-      // Verify that Rev.ai service is ready before proceeding
-      if (!revAiServiceRef.current.isReady()) {
-        throw new Error("Rev.ai connection established but not ready. Please try again.");
+      // Verify that the transcription service is ready before proceeding
+      if (!engine.isReady()) {
+        throw new Error("Transcription service connected but not ready. Please try again.");
       }
 
-      // Start recording after Rev.ai is connected
+      // Start recording after the transcription service is connected
       console.log("Starting audio recording");
       await audioRecorderRef.current.startRecording();
+      dispatchTimed({ type: 'SPEAKING_STARTED', now: Date.now() });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error('Recording error:', errorMsg);
       
       // Check for API key related errors
-      if (errorMsg.includes('API key') || errorMsg.includes('not configured')) {
-        setError("API key error: Please check your environment setup and make sure you've added the required API keys.");
-      } else {
-        setError(`Failed to start recording: ${errorMsg}`);
-      }
-      
-      setRecordingState('idle');
+      dispatchRecording({
+        type: 'FAILED',
+        error: errorMsg.includes('API key') || errorMsg.includes('not configured')
+          ? "API key error: Please check your environment setup and make sure you've added the required API keys."
+          : `Failed to start recording: ${errorMsg}`
+      });
     }
   };
 
   const handleStopRecording = () => {
-    try {
-      console.log('Stopping recording...');
-      setRecordingState('stopping');
-      
-      // First, ensure we have a reference to both services before proceeding
-      if (!audioRecorderRef.current) {
-        console.error('Audio recorder not initialized');
-        setError('Failed to stop recording: recorder not initialized');
-        setRecordingState('idle');
-        return;
-      }
-      
-      // Create a flag to track if we've already finalized the transcription
-      let transcriptionFinalized = false;
-      
-      // Set up a handler for when audio recording stops
-      const originalOnStop = audioRecorderRef.current.options.onStop;
-      audioRecorderRef.current.onStop = (blob) => {
-        console.log(`Audio recording stopped, blob size: ${blob.size} bytes`);
-        
-        // Call the original onStop handler if it exists
-        if (originalOnStop) {
-          originalOnStop(blob);
-        }
-        
-        // Check if we received a valid audio blob
-        if (blob.size <= 4) {
-          console.warn('Received minimal or empty audio blob, likely a dummy chunk');
-          
-          // If this is a dummy chunk (from our fallback mechanism), show a helpful error
-          setError('No audio was detected. Please check your microphone and try again.');
-          
-          // Force state to idle after a short delay to allow UI to update
-          setTimeout(() => {
-            setRecordingState('idle');
-            
-            // Clean up resources
-            if (revAiServiceRef.current) {
-              revAiServiceRef.current.disconnect();
-            }
-          }, 300);
-          
-          return;
-        }
-        
-        // Only finalize if we haven't already and Rev.ai is ready
-        if (!transcriptionFinalized && revAiServiceRef.current?.isReady()) {
-          console.log('Finalizing transcription after recording stopped');
-          transcriptionFinalized = true;
-          revAiServiceRef.current.finishTranscription();
-        }
-      };
-      
-      // Stop the recording
-      audioRecorderRef.current.stopRecording();
-      
-      // Also set up a backup finalization with a delay to ensure Rev.ai gets the signal
-      if (revAiServiceRef.current?.isReady()) {
-        setTimeout(() => {
-          if (!transcriptionFinalized && revAiServiceRef.current?.isReady()) {
-            console.log('Backup finalization of transcription after delay');
-            transcriptionFinalized = true;
-            revAiServiceRef.current.finishTranscription();
-          }
-        }, 800); // Increased from 500ms to 800ms for more reliability
-      }
-      
-      // Set a shorter initial timeout to check for progress
-      setTimeout(() => {
-        if (recordingState === 'stopping' && !transcription.trim()) {
-          console.log('No transcription after 2 seconds, showing progress message');
-          setError('Processing audio... If nothing happens in a few seconds, please try again.');
-        }
-      }, 2000);
-      
-      // Set a medium timeout to check for progress
-      setTimeout(() => {
-        if (recordingState === 'stopping') {
-          if (transcription.trim()) {
-            console.log('Transcription received, transitioning to recorded state');
-            setRecordingState('recorded');
-            setError(null);
-          }
-        }
-      }, 3000);
-      
-      // Set a longer timeout to ensure we move to 'recorded' state even if there's an issue
-      // This prevents the UI from getting stuck in 'stopping' state
-      setTimeout(() => {
-        if (recordingState === 'stopping') {
-          console.log('Force timeout: Transitioning from stopping state after timeout');
-          
-          // If we have transcription text, use recorded state
-          if (transcription.trim()) {
-            setRecordingState('recorded');
-            setError(null);
-          } else {
-            // If no transcription, show error and reset
-            setError('No transcription received. Please check your microphone and try again.');
-            setRecordingState('idle');
-            
-            // Ensure we disconnect from Rev.ai to clean up resources
-            if (revAiServiceRef.current) {
-              console.log('Disconnecting Rev.ai service after timeout with no transcription');
-              revAiServiceRef.current.disconnect();
-            }
-          }
-        }
-      }, 4000); // Reduced from 5000ms to 4000ms since we have earlier checks
-    } catch (error) {
-      console.error('Error stopping recording:', error);
-      setError(`Failed to stop recording: ${error instanceof Error ? error.message : String(error)}`);
-      setRecordingState('idle');
+    console.log('Stopping recording...');
+    
+    if (!audioRecorderRef.current) {
+      console.error('Audio recorder not initialized');
+      dispatchRecording({ type: 'FAILED', error: 'Failed to stop recording: recorder not initialized' });
+      return;
+    }
+    
+    // The recorder's onStop finalizes the transcription; the machine settles once the final transcript arrives
+    dispatchRecording({ type: 'STOP' });
+    audioRecorderRef.current.stopRecording();
+  };
+
+  // Effects start the latest handleStartRecording without re-running on every render
+  const startRecordingRef = useRef(handleStartRecording);
+  startRecordingRef.current = handleStartRecording;
+
+  const handlePauseRecording = () => {
+    if (!audioRecorderRef.current) {
+      return;
+    }
+    dispatchRecording({ type: 'PAUSE' });
+    audioRecorderRef.current.pauseRecording();
+    transcriptionEngineRef.current?.pause();
+  };
+
+  const handleResumeRecording = () => {
+    if (!audioRecorderRef.current) {
+      return;
     }
+    dispatchRecording({ type: 'RESUME' });
+    transcriptionEngineRef.current?.resume();
+    audioRecorderRef.current.resumeRecording();
   };
 
   const handleTryAgain = () => {
     console.log('User requested to try again, resetting state');
+    uploadAbortRef.current?.abort();
     
-    // First set recording state to idle to prevent any race conditions
-    // This ensures no cleanup functions are triggered by state changes
-    setRecordingState('idle');
+    // Callbacks from the abandoned recording are ignored once the machine is reset
+    dispatchRecording({ type: 'RESET' });
+    dispatchTimed({ type: 'RESET' });
+    setShowFeedback(false);
+    setFeedback(undefined);
+    setError(null);
     
-    // Small delay to ensure state update is processed before continuing
-    setTimeout(() => {
-      // Clear UI state
-      setShowFeedback(false);
-      setTranscription('');
-      setFeedback(undefined);
-      setError(null);
-      
-      // Disconnect from Rev.ai to ensure clean state
-      if (revAiServiceRef.current) {
-        console.log('Disconnecting Rev.ai service for retry');
-        revAiServiceRef.current.disconnect();
-      }
-      
-      // Dispose of audio recorder to ensure clean state
-      if (audioRecorderRef.current) {
-        console.log('Disposing audio recorder for retry');
-        audioRecorderRef.current.dispose();
-        audioRecorderRef.current = null;
-      }
-      
-      console.log('Reset complete, ready for new recording');
-    }, 100);
+    // Disconnect from the transcription service to ensure clean state
+    if (transcriptionEngineRef.current) {
+      console.log('Disconnecting transcription service for retry');
+      transcriptionEngineRef.current.disconnect();
+    }
+    
+    // Dispose of audio recorder to ensure clean state
+    if (audioRecorderRef.current) {
+      console.log('Disposing audio recorder for retry');
+      audioRecorderRef.current.dispose();
+      audioRecorderRef.current = null;
+    }
+  };
+
+  /**
+   * Transcribe a recording the learner made earlier, e.g. offline on their phone. Once the
+   * transcription job finishes it goes through the same review and feedback as a live recording.
+   */
+  const handleUploadRecording = async (file: File) => {
+    if (!checkReadyToRecord()) {
+      return;
+    }
+
+    if (!isSupportedUpload(file)) {
+      setError(`Please upload a ${UPLOAD_AUDIO_EXTENSIONS.join(', ')} file.`);
+      return;
+    }
+
+    handleTryAgain();
+    // The attempt is dated when it was recorded, not when it was uploaded
+    recordingStartedAtRef.current = new Date(file.lastModified);
+    dispatchRecording({ type: 'UPLOADED', recording: file });
+
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    try {
+      const result = await transcribeUploadedRecording(file, language, {
+        scenarioId: selectedScenario?.id,
+        signal: controller.signal
+      });
+      dispatchRecording({ type: 'TRANSCRIPT_COMPLETED', result });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Upload transcription error:', error);
+      dispatchRecording({ type: 'TRANSCRIPTION_FAILED', error: error instanceof Error ? error.message : String(error) });
+    }
   };
 
   const handleSubmitRecording = async () => {
@@ -455,21 +646,83 @@ export default function Home() {
       return;
     }
 
-    const trimmedTranscription = transcription.trim();
+    const trimmedTranscription = submittedTranscript(recording).trim();
     
     if (!trimmedTranscription) {
       // If there's no transcription, provide a helpful error message
       setError("No speech detected or transcription failed. Please try recording again.");
-      setRecordingState('idle');
+      dispatchRecording({ type: 'RESET' });
+      return;
+    }
+
+    // In a conversation, the recording is the learner's next turn rather than a final answer
+    if (practiceMode === 'conversation') {
+      dispatchConversation({ type: 'LEARNER_TURN_RECORDED', text: trimmedTranscription });
+      handleTryAgain();
       return;
     }
 
-    // Check if Groq API is available
-    if (apiStatus && !apiStatus.groq) {
-      setError("Groq API key is missing. Cannot analyze response.");
+    // Check if the language model is available
+    if (apiStatus && !apiStatus.feedback) {
+      setError("The language model is not configured. Cannot analyze response.");
       return;
     }
 
+    await requestFeedback(
+      selectedScenario,
+      trimmedTranscription,
+      recordingStartedAtRef.current ?? new Date(),
+      {
+        ...await measureSpeech(trimmedTranscription),
+        correction: transcriptCorrection(),
+        timeUsage: timeUsage(timed),
+        reading: practiceMode === 'readAloud' && selectedScenario.referenceText
+          ? alignReading(selectedScenario.referenceText, trimmedTranscription)
+          : undefined
+      },
+      recordedAudio
+    );
+  };
+
+  /**
+   * How the learner corrected the recognizer's transcript, if they changed any words
+   */
+  const transcriptCorrection = () => {
+    if (recording.correctedText === null) {
+      return undefined;
+    }
+    const correction = diffTranscript(transcription.trim(), recording.correctedText.trim());
+    return correction.changedWordCount > 0 ? correction : undefined;
+  };
+
+  /**
+   * Measure pronunciation and fluency from the recognized words and the recording. Feedback
+   * still works without them, the model is then told not to comment on how the learner sounded.
+   */
+  const measureSpeech = async (trimmedTranscription: string): Promise<FeedbackContext> => {
+    try {
+      const audio = recordedAudio ? await decodeAudio(recordedAudio) : null;
+      return {
+        pronunciation: transcriptWords.length > 0 ? analyzePronunciation(transcriptWords, audio, language) : undefined,
+        fluency: analyzeFluency(trimmedTranscription, transcriptWords, audio, language)
+      };
+    } catch (error) {
+      console.warn('Speech analysis failed:', error);
+      return {};
+    }
+  };
+
+  /**
+   * Get language and sentiment feedback for a single answer or a whole conversation,
+   * show it, and save the attempt and its recording to the user's history
+   */
+  const requestFeedback = async (
+    scenario: Scenario,
+    trimmedTranscription: string,
+    recordedAt: Date,
+    context: FeedbackContext = {},
+    recording: Blob | null = null
+  ) => {
     setError(null); // Clear any previous errors
     setIsAnalyzing(true);
     setShowFeedback(true);
@@ -481,15 +734,17 @@ export default function Home() {
 
       // Start language feedback analysis
       const languageFeedbackPromise = groqServiceRef.current.analyzeSpeakingResponse(
-        selectedScenario,
-        trimmedTranscription
+        scenario,
+        trimmedTranscription,
+        { ...context, language: scenario.language }
       );
       
-      // Start sentiment analysis in parallel if available
+      // Start sentiment analysis in parallel if available; Rev.ai only scores some languages
+      const sentimentAvailable = apiStatus?.sentiment && SENTIMENT_LANGUAGES.includes(scenario.language);
       let sentimentPromise: Promise<SentimentSummary | null> = Promise.resolve(null);
-      if (apiStatus?.sentiment && sentimentServiceRef.current) {
+      if (sentimentAvailable && sentimentServiceRef.current) {
         console.log('Starting sentiment analysis for transcription:', trimmedTranscription);
-        sentimentPromise = sentimentServiceRef.current.analyzeSentiment(trimmedTranscription)
+        sentimentPromise = sentimentServiceRef.current.analyzeSentiment(trimmedTranscription, scenario.language)
           .then(result => {
             console.log('Sentiment analysis completed successfully:');
             console.log('Overall sentiment:', result.overall);
@@ -509,11 +764,17 @@ export default function Home() {
       const languageFeedback = await languageFeedbackPromise;
       
       // Set initial feedback without sentiment
-      setFeedback(languageFeedback);
+      setFeedback({
+        ...languageFeedback,
+        pronunciation: context.pronunciation,
+        fluency: context.fluency,
+        timeUsage: context.timeUsage,
+        reading: context.reading
+      });
       setIsAnalyzing(false);
       
       // If sentiment analysis is available, update feedback when it completes
-      if (apiStatus?.sentiment && sentimentServiceRef.current) {
+      if (sentimentAvailable && sentimentServiceRef.current) {
         // Continue with sentiment analysis in the background
         sentimentPromise.then(sentimentResult => {
           if (sentimentResult) {
@@ -534,13 +795,39 @@ export default function Home() {
           // Don't show error to user as sentiment is optional
         });
       }
+      
+      // Save the attempt once sentiment analysis has settled (it resolves to null on failure)
+      void sentimentPromise.then(sentimentResult => {
+        saveAttempt.mutate({
+          scenarioId: scenario.id,
+          scenario: {
+            description: scenario.description,
+            prompt: scenario.prompt
+          },
+          transcript: trimmedTranscription,
+          dialogue: context.dialogue,
+          feedback: languageFeedback,
+          sentiment: sentimentResult,
+          transcriptCorrection: context.correction,
+          recordedAt
+        }, {
+          onSuccess: (attempt) => {
+            if (!attempt || !recording || recording.size <= 4) return;
+            uploadAttemptRecording(attempt.id, recording)
+              .then(() => utils.attempt.invalidate())
+              .catch(error => {
+                // The attempt itself is saved, only listening back from the history won't be possible
+                console.error('Failed to store recording:', error);
+              });
+          }
+        });
+      });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error('Feedback error:', errorMsg);
       
-      // Check for API key related errors
-      if (errorMsg.includes('API key') || errorMsg.includes('not configured')) {
-        setError("API key error: Please check your Groq API key setup.");
+      if (error instanceof FeedbackError) {
+        setError(feedbackErrorMessages[error.code]);
       } else {
         setError(`Failed to analyze response: ${errorMsg}`);
       }
@@ -556,8 +843,83 @@ export default function Home() {
     }
   };
 
+  // Effects call the latest requestFeedback without re-running on every render
+  const requestFeedbackRef = useRef(requestFeedback);
+  requestFeedbackRef.current = requestFeedback;
+
+  const handleStartConversation = () => {
+    if (!selectedScenario) {
+      setError("Please select a scenario before starting a conversation.");
+      return;
+    }
+
+    if (apiStatus && !apiStatus.feedback) {
+      setError("The language model is not configured. Cannot start a conversation.");
+      return;
+    }
+
+    setError(null);
+    setShowFeedback(false);
+    setFeedback(undefined);
+    conversationStartedAtRef.current = new Date();
+    dispatchConversation({ type: 'START' });
+  };
+
+  const handleEndConversation = () => {
+    speechSynthesisRef.current?.cancel();
+    dispatchConversation({ type: 'END' });
+  };
+
+  const handleResetConversation = () => {
+    speechSynthesisRef.current?.cancel();
+    dispatchConversation({ type: 'RESET' });
+  };
+
+  // Try Again from the feedback card starts over, including any conversation
+  const handleFeedbackTryAgain = () => {
+    handleResetConversation();
+    handleTryAgain();
+  };
+
+  const handlePracticeModeChange = (mode: PracticeMode) => {
+    if (mode === practiceMode) return;
+
+    handleResetConversation();
+    dispatchTimed({ type: 'RESET' });
+    setPracticeMode(mode);
+
+    if (recordingState !== 'idle' || showFeedback) {
+      handleTryAgain();
+    }
+  };
+
+  // Each language has its own scenarios, so switching starts over with no scenario selected
+  const handlePracticeLanguageChange = (language: PracticeLanguage) => {
+    if (language === practiceLanguage) return;
+
+    setPracticeLanguage(language);
+    setSelectedScenario(null);
+    handleResetConversation();
+    dispatchTimed({ type: 'RESET' });
+
+    if (practiceMode === 'readAloud') {
+      setPracticeMode('single');
+    }
+
+    if (recordingState !== 'idle' || showFeedback) {
+      handleTryAgain();
+    }
+  };
+
   const handleScenarioSelect = (scenario: Scenario) => {
     setSelectedScenario(scenario);
+    handleResetConversation();
+    dispatchTimed({ type: 'RESET' });
+
+    // Only scenarios with a reference text can be read aloud
+    if (practiceMode === 'readAloud' && !scenario.referenceText) {
+      setPracticeMode('single');
+    }
     
     // Reset recording state when changing scenarios
     if (recordingState !== 'idle') {
@@ -566,7 +928,7 @@ export default function Home() {
   };
 
   // Display setup instructions if API keys are missing
-  const showApiSetupInstructions = apiStatus && (!apiStatus.revai || !apiStatus.groq);
+  const showApiSetupInstructions = apiStatus && (!apiStatus.transcription || !apiStatus.feedback);
 
   return (
     <main className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-b from-blue-500 to-purple-600 p-4 md:p-8">
@@ -576,14 +938,20 @@ export default function Home() {
           <p className="mb-4">To use this application, you need to set up the following API keys:</p>
           
           <ul className="mb-6 ml-6 list-disc space-y-2">
-            {!apiStatus.revai && (
-              <li className="text-red-600">
-                <span className="font-medium">Rev.ai API Key</span> - For speech-to-text transcription and sentiment analysis
-              </li>
+            {!apiStatus.transcription && (
+              env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE === 'whisper' ? (
+                <li className="text-red-600">
+                  <span className="font-medium">Whisper Server URL</span> - Set <code className="bg-gray-100 px-1 py-0.5 rounded">WHISPER_URL</code> to your whisper.cpp or faster-whisper server for speech-to-text transcription
+                </li>
+              ) : (
+                <li className="text-red-600">
+                  <span className="font-medium">Rev.ai API Key</span> - For speech-to-text transcription and sentiment analysis
+                </li>
+              )
             )}
-            {!apiStatus.groq && (
+            {!apiStatus.feedback && (
               <li className="text-red-600">
-                <span className="font-medium">Groq API Key</span> - For AI feedback analysis
+                <span className="font-medium">Language Model</span> - For AI feedback analysis, set the API key for the provider selected by <code className="bg-gray-100 px-1 py-0.5 rounded">LLM_PROVIDER</code> (<code className="bg-gray-100 px-1 py-0.5 rounded">GROQ_API_KEY</code> for the default Groq), or point it at a local model
               </li>
             )}
           </ul>
@@ -617,7 +985,36 @@ GROQ_API_KEY=your_groq_key_here`}
             </div>
             
             <div className="space-y-4 rounded-xl bg-white/10 p-6 backdrop-blur-sm shadow-lg">
-              <h2 className="text-2xl font-semibold text-white">Select a Scenario</h2>
+              <div className="flex items-center justify-between">
+                <h2 className="text-2xl font-semibold text-white">Select a Scenario</h2>
+                <Link href="/scenarios" className="text-sm text-white/80 underline hover:text-white">
+                  Manage scenarios
+                </Link>
+              </div>
+              <div className="space-y-1 text-sm text-white">
+                Practice language
+                <Select
+                  value={practiceLanguage}
+                  onValueChange={(value) => handlePracticeLanguageChange(value as PracticeLanguage)}
+                  disabled={recordingState === 'recording' || recordingState === 'paused' || recordingState === 'stopping'}
+                >
+                  <SelectTrigger className="w-full bg-white/90 text-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {practiceLanguages.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {practiceLanguageNames[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {!isLoadingScenarios && scenarios.length === 0 && (
+                <p className="text-sm text-white/90">
+                  There are no {practiceLanguageNames[practiceLanguage]} scenarios yet. Run <code>npm run db:seed</code> or add scenarios on the Manage scenarios page.
+                </p>
+              )}
               <ScenarioDropdown
                 scenarios={scenarios}
                 selectedScenario={selectedScenario}
@@ -627,34 +1024,226 @@ GROQ_API_KEY=your_groq_key_here`}
               
               {selectedScenario && (
                 <div className="mt-6 rounded-lg bg-white/20 p-4 text-white">
-                  <h3 className="font-medium">Speaking Task:</h3>
-                  <p className="mt-2">{selectedScenario.prompt}</p>
+                  {practiceMode === 'readAloud' && selectedScenario.referenceText ? (
+                    <>
+                      <h3 className="font-medium">Read this aloud:</h3>
+                      <p className="mt-2">{selectedScenario.referenceText}</p>
+                    </>
+                  ) : (
+                    <>
+                      <h3 className="font-medium">Speaking Task:</h3>
+                      <p className="mt-2">{selectedScenario.prompt}</p>
+                    </>
+                  )}
+                  {isTimed && selectedScenario.speakSeconds !== undefined && (
+                    <p className="mt-2 text-sm text-white/90">
+                      Timed: {formatCountdown(selectedScenario.prepSeconds ?? 0)} to prepare, {formatCountdown(selectedScenario.speakSeconds)} to answer
+                    </p>
+                  )}
+                  {selectedScenario.targetSkills.length > 0 && (
+                    <div className="mt-3 flex flex-wrap gap-1">
+                      {selectedScenario.targetSkills.map((skill) => (
+                        <span key={skill} className="rounded-full bg-white/20 px-2 py-0.5 text-xs">
+                          {skill}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
+            
+            <div className="space-y-3 rounded-xl bg-white/10 p-6 backdrop-blur-sm shadow-lg">
+              <h2 className="text-2xl font-semibold text-white">Practice Mode</h2>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className={cn('flex-1', practiceMode === 'single' ? 'bg-white text-blue-700' : 'bg-white/20 text-white')}
+                  onClick={() => handlePracticeModeChange('single')}
+                  aria-pressed={practiceMode === 'single'}
+                >
+                  Single answer
+                </Button>
+                <Button
+                  variant="outline"
+                  className={cn('flex-1', practiceMode === 'readAloud' ? 'bg-white text-blue-700' : 'bg-white/20 text-white')}
+                  onClick={() => handlePracticeModeChange('readAloud')}
+                  aria-pressed={practiceMode === 'readAloud'}
+                  disabled={!selectedScenario?.referenceText}
+                  title={selectedScenario?.referenceText ? undefined : 'This scenario has no text to read aloud'}
+                >
+                  Read aloud
+                </Button>
+                <Button
+                  variant="outline"
+                  className={cn('flex-1', practiceMode === 'conversation' ? 'bg-white text-blue-700' : 'bg-white/20 text-white')}
+                  onClick={() => handlePracticeModeChange('conversation')}
+                  aria-pressed={practiceMode === 'conversation'}
+                >
+                  Conversation
+                </Button>
+              </div>
+              {practiceMode !== 'conversation' && (
+                <div className="flex items-center justify-between gap-2 text-sm text-white">
+                  <span>Recorded offline? Upload a {UPLOAD_AUDIO_EXTENSIONS.join(', ')} file.</span>
+                  <input
+                    ref={uploadInputRef}
+                    type="file"
+                    accept={`${UPLOAD_AUDIO_EXTENSIONS.join(',')},audio/*`}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      // Clear the input so the same file can be picked again
+                      e.target.value = '';
+                      if (file) void handleUploadRecording(file);
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-shrink-0 gap-1 bg-white/20 text-white"
+                    onClick={() => uploadInputRef.current?.click()}
+                    disabled={isSignedOut || !selectedScenario || recordingState === 'recording' || recordingState === 'paused' || recordingState === 'stopping'}
+                  >
+                    <Upload className="h-4 w-4" />
+                    Upload
+                  </Button>
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-sm text-white">
+                <input
+                  type="checkbox"
+                  checked={autoStop}
+                  onChange={(e) => setAutoStop(e.target.checked)}
+                />
+                Stop recording after {AUTO_STOP_SILENCE_MS / 1000} seconds of silence
+              </label>
+              <div className="space-y-1 text-sm text-white">
+                Microphone
+                <MicrophonePicker
+                  deviceId={microphoneId}
+                  onChange={setMicrophoneId}
+                  disabled={recordingState === 'recording' || recordingState === 'paused' || recordingState === 'stopping'}
+                  className="w-full bg-white/90 text-gray-900"
+                />
+              </div>
+              {practiceMode === 'conversation' && (
+                <label className="flex items-center gap-2 text-sm text-white">
+                  <input
+                    type="checkbox"
+                    checked={speakReplies}
+                    onChange={(e) => setSpeakReplies(e.target.checked)}
+                    disabled={!canSpeakReplies}
+                  />
+                  Speak replies aloud
+                </label>
+              )}
+              {practiceMode === 'conversation' && !canSpeakReplies && (
+                <p className="text-xs text-white/80">
+                  {SpeechSynthesisService.isSupported()
+                    ? `This browser has no ${practiceLanguageNames[language]} voice, so replies are shown as text only.`
+                    : "This browser can't speak replies aloud, so they are shown as text only."}
+                </p>
+              )}
+            </div>
           </div>
           
           {/* Center Section - iPhone */}
           <div className="flex flex-1 justify-center items-center">
             <div className="scale-110 transition-transform duration-300 hover:scale-[1.12]">
-              <IPhoneFrame>
+              <IPhoneFrame
+                overlay={
+                  timed.phase === 'preparing' && timedEndsAt !== null ? (
+                    <CountdownOverlay
+                      label="Prepare your answer"
+                      endsAt={timedEndsAt}
+                      totalSeconds={timed.prepSeconds}
+                      onSkip={() => dispatchTimed({ type: 'PREPARED', now: Date.now() })}
+                      skipLabel="Start speaking now"
+                    />
+                  ) : timed.phase === 'speaking' && timedEndsAt !== null ? (
+                    <CountdownOverlay
+                      compact
+                      label="Time left to answer"
+                      endsAt={timedEndsAt}
+                      totalSeconds={timed.speakSeconds}
+                    />
+                  ) : undefined
+                }
+              >
                 <div className="relative flex h-full flex-col items-center justify-between p-4">
-                  <div className="pt-8 text-center text-sm text-gray-500">
+                  <div className="w-full pt-8 text-center text-sm text-gray-500">
                     {selectedScenario ? (
-                      <p className="font-medium">{selectedScenario.description}</p>
+                      <>
+                        <p className="font-medium">{selectedScenario.description}</p>
+                        {practiceMode === 'readAloud' && selectedScenario.referenceText && (
+                          <p className="mt-3 rounded-lg bg-gray-50 p-3 text-left text-base leading-relaxed text-gray-800">
+                            {selectedScenario.referenceText}
+                          </p>
+                        )}
+                        {recording.source === 'upload' && recordingState === 'stopping' && (
+                          <p className="mt-3 text-sm text-gray-500">Transcribing your recording, this can take a minute...</p>
+                        )}
+                        {practiceMode !== 'conversation' && (recordingState === 'recording' || recordingState === 'paused' || recordingState === 'stopping') && (
+                          <LiveTranscript
+                            committedText={recording.committedText}
+                            pendingText={recording.pendingText}
+                            className="mt-3 max-h-32 overflow-y-auto text-left text-gray-700"
+                          />
+                        )}
+                        {practiceMode !== 'conversation' && recordingState === 'recorded' && !showFeedback && (
+                          <TranscriptEditor
+                            recognizedText={transcription}
+                            value={submittedTranscript(recording)}
+                            onChange={(text) => dispatchRecording({ type: 'TRANSCRIPT_CORRECTED', text })}
+                            className="mt-3"
+                          />
+                        )}
+                      </>
                     ) : (
                       <p>Select a scenario to begin</p>
                     )}
+                    
+                    {practiceMode === 'conversation' && conversation.phase !== 'idle' && (
+                      <ConversationView
+                        turns={conversation.turns}
+                        phase={conversation.phase}
+                        liveTranscript={recordingState !== 'idle' ? { committedText: recording.committedText, pendingText: recording.pendingText } : undefined}
+                        onEnd={recordingState === 'idle' ? handleEndConversation : undefined}
+                        className="mt-3 text-left"
+                      />
+                    )}
                   </div>
                   
                   <div className="flex h-full items-center justify-center">
-                    <MicrophoneButton 
-                      onRecord={handleStartRecording}
-                      onStop={handleStopRecording}
-                      onSubmit={handleSubmitRecording}
-                      onTryAgain={handleTryAgain}
-                      recordingState={recordingState}
-                    />
+                    {isSignedOut ? (
+                      <p className="text-center">
+                        <Link href="/api/auth/signin" className="underline">
+                          Sign in
+                        </Link>{" "}
+                        to practice speaking.
+                      </p>
+                    ) : practiceMode === 'conversation' && (conversation.phase === 'idle' || conversation.phase === 'complete') ? (
+                      <Button
+                        className="bg-blue-600 hover:bg-blue-700"
+                        onClick={handleStartConversation}
+                        disabled={!selectedScenario}
+                      >
+                        {conversation.phase === 'complete' ? 'Start a new conversation' : 'Start conversation'}
+                      </Button>
+                    ) : (practiceMode !== 'conversation' || conversation.phase === 'learnerTurn') && (
+                      <MicrophoneButton 
+                        onRecord={handleRecord}
+                        onStop={handleStopRecording}
+                        // Exam-style timed answers can't be paused
+                        onPause={isTimed ? undefined : handlePauseRecording}
+                        onResume={isTimed ? undefined : handleResumeRecording}
+                        onSubmit={handleSubmitRecording}
+                        onTryAgain={handleTryAgain}
+                        recordingState={recordingState}
+                        level={microphoneLevel}
+                      />
+                    )}
                   </div>
                   
                   {error && (
@@ -665,11 +1254,15 @@ GROQ_API_KEY=your_groq_key_here`}
                   
                   {showFeedback && (
                     <FeedbackCard
-                      transcription={transcription}
+                      transcription={submittedTranscript(recording)}
+                      words={practiceMode !== 'conversation' ? transcriptWords : undefined}
+                      recording={practiceMode !== 'conversation' ? recordedAudio : undefined}
+                      dialogue={practiceMode === 'conversation' ? conversation.turns : undefined}
                       feedback={feedback}
                       isLoading={isAnalyzing}
+                      sentimentUnavailableReason={sentimentUnavailableReason}
                       onClose={() => setShowFeedback(false)}
-                      onTryAgain={handleTryAgain}
+                      onTryAgain={handleFeedbackTryAgain}
                       className={`transform ${showFeedback ? 'translate-y-0' : 'translate-y-full'}`}
                     />
                   )}
@@ -678,8 +1271,8 @@ GROQ_API_KEY=your_groq_key_here`}
             </div>
           </div>
           
-          {/* Empty space on the right to balance the layout */}
-          <div className="hidden lg:block w-full max-w-md"></div>
+          {/* Right Section - Practice History */}
+          <AttemptHistory className="hidden lg:block w-full max-w-md" />
         </div>
       )}
     </main>
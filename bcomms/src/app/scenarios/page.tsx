@@ -0,0 +1,38 @@
+import Link from "next/link";
+
+import { ScenarioEditor } from "~/app/_components/scenario-editor";
+import { auth } from "~/server/auth";
+import { api, HydrateClient } from "~/trpc/server";
+
+export default async function ScenariosPage() {
+  const session = await auth();
+  const isInstructor = session?.user.role === "instructor";
+  if (isInstructor) {
+    void api.scenario.list.prefetch();
+  }
+
+  return (
+    <HydrateClient>
+      <main className="flex min-h-screen flex-col items-center bg-gradient-to-b from-blue-500 to-purple-600 p-4 md:p-8">
+        <div className="mb-6 w-full max-w-3xl">
+          <Link href="/" className="text-sm text-white/80 underline hover:text-white">
+            Back to practice
+          </Link>
+          <h1 className="mt-2 text-4xl font-bold text-white">Scenario Library</h1>
+          <p className="text-lg text-white/90">
+            Add and edit the speaking scenarios learners can practice
+          </p>
+        </div>
+        {isInstructor ? (
+          <ScenarioEditor />
+        ) : (
+          <p className="w-full max-w-3xl rounded-md bg-white/20 p-4 text-white">
+            {session
+              ? "Only instructors can manage the scenario library. Ask your team's admin to add you."
+              : "Please sign in as an instructor to manage the scenario library."}
+          </p>
+        )}
+      </main>
+    </HydrateClient>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useRef } from "react";
+import { Volume2 } from "lucide-react";
+import { cn } from "~/lib/utils";
+import { Button } from "./button";
+import { LiveTranscript } from "./live-transcript";
+import type { ConversationPhase } from "~/lib/conversation-machine";
+import type { DialogueTurn } from "~/lib/services/conversation-service";
+
+interface ConversationViewProps {
+  turns: DialogueTurn[];
+  phase: ConversationPhase;
+  liveTranscript?: { committedText: string; pendingText: string }; // The learner's current turn as it's transcribed
+  onEnd?: () => void; // Omit to hide the end button, e.g. while a turn is being recorded
+  className?: string;
+}
+
+const phaseStatus: Record<ConversationPhase, string> = {
+  idle: "",
+  partnerThinking: "Waiting for a reply...",
+  partnerSpeaking: "Speaking...",
+  learnerTurn: "Your turn - tap the microphone to answer",
+  evaluating: "Evaluating your conversation...",
+  complete: "Conversation finished",
+};
+
+export function ConversationView({
+  turns,
+  phase,
+  liveTranscript,
+  onEnd,
+  className,
+}: ConversationViewProps) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest line in view as the dialogue grows
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [turns.length, liveTranscript?.committedText, liveTranscript?.pendingText]);
+
+  const canEnd = !!onEnd && (phase === "learnerTurn" || phase === "partnerSpeaking");
+
+  return (
+    <div className={cn("flex w-full flex-col gap-2", className)}>
+      <div className="flex max-h-56 flex-col gap-2 overflow-y-auto px-1 text-sm">
+        {turns.map((turn, index) => (
+          <div
+            key={index}
+            className={cn(
+              "max-w-[85%] rounded-2xl px-3 py-2",
+              turn.role === "partner"
+                ? "self-start rounded-bl-sm bg-gray-100 text-gray-800"
+                : "self-end rounded-br-sm bg-blue-600 text-white"
+            )}
+          >
+            {turn.role === "partner" && phase === "partnerSpeaking" && index === turns.length - 1 && (
+              <Volume2 className="mr-1 inline h-3 w-3 animate-pulse" />
+            )}
+            {turn.text}
+          </div>
+        ))}
+        {liveTranscript && (liveTranscript.committedText || liveTranscript.pendingText) && (
+          <LiveTranscript
+            {...liveTranscript}
+            className="max-w-[85%] self-end rounded-2xl rounded-br-sm bg-blue-100 px-3 py-2 text-blue-800"
+          />
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+        <span>{phaseStatus[phase]}</span>
+        {canEnd && (
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onEnd}>
+            End &amp; evaluate
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
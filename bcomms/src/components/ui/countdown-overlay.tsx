@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { formatCountdown } from "~/lib/timed-response-machine";
+import { cn } from "~/lib/utils";
+
+interface CountdownOverlayProps {
+  label: string;
+  endsAt: number; // Date.now() timestamp the countdown reaches zero at
+  totalSeconds: number;
+  compact?: boolean; // A bar along the top instead of covering the screen, e.g. while speaking
+  onSkip?: () => void;
+  skipLabel?: string;
+  className?: string;
+}
+
+// Often enough that the seconds never visibly lag behind
+const TICK_MS = 200;
+
+export function CountdownOverlay({
+  label,
+  endsAt,
+  totalSeconds,
+  compact = false,
+  onSkip,
+  skipLabel = "Skip",
+  className,
+}: CountdownOverlayProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remainingSeconds = Math.max(0, (endsAt - now) / 1000);
+  const progress = totalSeconds > 0 ? remainingSeconds / totalSeconds : 0;
+  const isRunningOut = remainingSeconds <= 10;
+
+  if (compact) {
+    return (
+      <div className={cn("absolute inset-x-0 top-0 z-10 bg-white/90 px-4 pb-2 pt-7", className)}>
+        <div className="flex items-center justify-between text-xs font-medium text-gray-600">
+          <span>{label}</span>
+          <span className={cn("tabular-nums", isRunningOut && "text-red-600")}>
+            {formatCountdown(remainingSeconds)}
+          </span>
+        </div>
+        <div className="mt-1 h-1 overflow-hidden rounded-full bg-gray-200">
+          <div
+            className={cn("h-full transition-[width] duration-200", isRunningOut ? "bg-red-500" : "bg-blue-500")}
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "absolute inset-0 z-10 flex flex-col items-center justify-center gap-4 bg-white/95 p-6 text-center",
+        className
+      )}
+      role="timer"
+      aria-live="polite"
+    >
+      <p className="text-sm font-medium text-gray-600">{label}</p>
+      <p className={cn("text-6xl font-bold tabular-nums text-gray-800", isRunningOut && "text-red-600")}>
+        {formatCountdown(remainingSeconds)}
+      </p>
+      {onSkip && (
+        <Button className="bg-blue-600 hover:bg-blue-700" onClick={onSkip}>
+          {skipLabel}
+        </Button>
+      )}
+    </div>
+  );
+}
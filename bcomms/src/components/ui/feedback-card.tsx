@@ -1,14 +1,28 @@
-import React from "react";
-import { Check, AlertTriangle, X, Repeat, BarChart } from "lucide-react";
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Check, AlertTriangle, X, Repeat, BarChart, Gauge, AudioLines, Timer, Hourglass, BookOpenText } from "lucide-react";
 import { Button } from "~/components/ui/button";
 import { cn } from "~/lib/utils";
 import type { FeedbackResponse } from "~/lib/services/groq-service";
 import { SentimentFeedback } from "~/components/ui/sentiment-feedback";
+import { ScorePanel } from "~/components/ui/score-panel";
+import { PronunciationPanel } from "~/components/ui/pronunciation-panel";
+import { FluencyPanel } from "~/components/ui/fluency-panel";
+import { TimeUsagePanel } from "~/components/ui/time-usage-panel";
+import { ReadingDiff } from "~/components/ui/reading-diff";
+import type { DialogueTurn } from "~/lib/services/conversation-service";
+import type { TranscriptWord } from "~/lib/services/transcription-engine";
+import { TranscriptView } from "~/components/ui/transcript-view";
 
 interface FeedbackCardProps {
   transcription: string;
+  words?: TranscriptWord[]; // Recognized words with confidence, to highlight unclear ones
+  recording?: Blob | null; // The learner's recording, to replay alongside the transcript
+  dialogue?: DialogueTurn[];
   feedback?: FeedbackResponse;
   isLoading?: boolean;
+  sentimentUnavailableReason?: string; // Shown instead of sentiment results, e.g. for an unsupported language
   onClose: () => void;
   onTryAgain: () => void;
   className?: string;
@@ -16,12 +30,38 @@ interface FeedbackCardProps {
 
 export function FeedbackCard({
   transcription,
+  words,
+  recording,
+  dialogue,
   feedback,
   isLoading = false,
+  sentimentUnavailableReason,
   onClose,
   onTryAgain,
   className,
 }: FeedbackCardProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [playbackTime, setPlaybackTime] = useState<number | undefined>();
+
+  useEffect(() => {
+    if (!recording) {
+      setRecordingUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(recording);
+    setRecordingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  // Jump to a word of the transcript and play from there
+  const handleSeek = (seconds: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    void audioRef.current.play();
+  };
+
   return (
     <div
       className={cn(
@@ -63,15 +103,105 @@ export function FeedbackCard({
           </div>
         ) : (
           <>
-            <div className="mb-6">
-              <h4 className="mb-2 text-sm font-medium text-gray-500">Your Response</h4>
-              <div className="rounded-lg bg-gray-50 p-3 text-gray-800">
-                {transcription || "No response recorded"}
+            {dialogue && dialogue.length > 0 ? (
+              <div className="mb-6">
+                <h4 className="mb-2 text-sm font-medium text-gray-500">Your Conversation</h4>
+                <div className="space-y-1 rounded-lg bg-gray-50 p-3 text-sm text-gray-800">
+                  {dialogue.map((turn, index) => (
+                    <p key={index}>
+                      <span className={cn("font-medium", turn.role === "learner" ? "text-blue-700" : "text-gray-500")}>
+                        {turn.role === "learner" ? "You" : "Partner"}:
+                      </span>{" "}
+                      {turn.text}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="mb-6">
+                <h4 className="mb-2 text-sm font-medium text-gray-500">Your Response</h4>
+                <div className="rounded-lg bg-gray-50 p-3 text-gray-800">
+                  {transcription ? (
+                    <TranscriptView
+                      text={transcription}
+                      words={words}
+                      currentTime={playbackTime}
+                      onSeek={recordingUrl ? handleSeek : undefined}
+                    />
+                  ) : (
+                    "No response recorded"
+                  )}
+                </div>
+                {recordingUrl && (
+                  <audio
+                    ref={audioRef}
+                    src={recordingUrl}
+                    controls
+                    className="mt-2 h-10 w-full"
+                    onTimeUpdate={(event) => setPlaybackTime(event.currentTarget.currentTime)}
+                    onEnded={() => setPlaybackTime(undefined)}
+                  />
+                )}
               </div>
-            </div>
+            )}
             
             {feedback ? (
               <>
+                {/* Rubric Scores Section */}
+                {feedback.scores && (
+                  <div className="mb-4">
+                    <h4 className="mb-2 flex items-center gap-1 font-medium text-blue-600">
+                      <Gauge className="h-4 w-4" />
+                      <span>Scores</span>
+                    </h4>
+                    <ScorePanel scores={feedback.scores} />
+                  </div>
+                )}
+                
+                {/* Reading Accuracy Section, for read-aloud practice */}
+                {feedback.reading && (
+                  <div className="mb-4">
+                    <h4 className="mb-2 flex items-center gap-1 font-medium text-rose-600">
+                      <BookOpenText className="h-4 w-4" />
+                      <span>Reading Accuracy</span>
+                    </h4>
+                    <ReadingDiff report={feedback.reading} />
+                  </div>
+                )}
+                
+                {/* Pronunciation Section */}
+                {feedback.pronunciation && feedback.pronunciation.words.length > 0 && (
+                  <div className="mb-4">
+                    <h4 className="mb-2 flex items-center gap-1 font-medium text-teal-600">
+                      <AudioLines className="h-4 w-4" />
+                      <span>Pronunciation</span>
+                    </h4>
+                    <PronunciationPanel report={feedback.pronunciation} />
+                  </div>
+                )}
+                
+                {/* Fluency Section */}
+                {feedback.fluency && feedback.fluency.wordCount > 0 && (
+                  <div className="mb-4">
+                    <h4 className="mb-2 flex items-center gap-1 font-medium text-indigo-600">
+                      <Timer className="h-4 w-4" />
+                      <span>Fluency</span>
+                    </h4>
+                    <FluencyPanel report={feedback.fluency} />
+                  </div>
+                )}
+
+                {/* Time Usage Section, for timed scenarios */}
+                {feedback.timeUsage && (
+                  <div className="mb-4">
+                    <h4 className="mb-2 flex items-center gap-1 font-medium text-cyan-600">
+                      <Hourglass className="h-4 w-4" />
+                      <span>Time</span>
+                    </h4>
+                    <TimeUsagePanel usage={feedback.timeUsage} />
+                  </div>
+                )}
+                
                 <div className="mb-4">
                   <h4 className="mb-2 flex items-center gap-1 font-medium text-green-600">
                     <Check className="h-4 w-4" />
@@ -125,7 +255,7 @@ export function FeedbackCard({
                       <span>Sentiment Analysis</span>
                     </h4>
                     <div className="rounded-lg bg-gray-50 p-3 text-gray-500 text-sm">
-                      Sentiment analysis not available for this response.
+                      {sentimentUnavailableReason ?? "Sentiment analysis not available for this response."}
                     </div>
                   </div>
                 )}
@@ -0,0 +1,64 @@
+import { cn } from "~/lib/utils";
+import type { FluencyReport } from "~/lib/analysis/fluency";
+
+interface FluencyPanelProps {
+  report: FluencyReport;
+  className?: string;
+}
+
+interface Metric {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
+// Describe the speaking rate against a comfortable conversational pace
+const describeRate = (wordsPerMinute: number) => {
+  if (wordsPerMinute < 100) return "Slow";
+  if (wordsPerMinute > 170) return "Fast";
+  return "Comfortable pace";
+};
+
+export function FluencyPanel({ report, className }: FluencyPanelProps) {
+  const metrics: Metric[] = [];
+
+  if (report.wordsPerMinute !== undefined) {
+    metrics.push({ label: "Speaking rate", value: `${report.wordsPerMinute} wpm`, hint: describeRate(report.wordsPerMinute) });
+    metrics.push({
+      label: "Pauses",
+      value: `${report.pauseCount}`,
+      hint: report.pauseCount ? `avg ${report.averagePauseSeconds}s, longest ${report.longestPauseSeconds}s` : undefined,
+    });
+  }
+  metrics.push({ label: "Filler words", value: `${report.fillerCount}`, hint: `${report.fillersPerHundredWords} per 100 words` });
+
+  const usedFillers = Object.keys(report.fillerCounts).filter((filler) => (report.fillerCounts[filler] ?? 0) > 0);
+
+  return (
+    <div className={cn("space-y-3 rounded-lg bg-gray-50 p-3", className)}>
+      <div className="grid grid-cols-3 gap-2">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="rounded-md bg-white p-2 text-center">
+            <div className="text-xs text-gray-500">{metric.label}</div>
+            <div className="text-lg font-semibold text-gray-800">{metric.value}</div>
+            {metric.hint && <div className="text-xs text-gray-500">{metric.hint}</div>}
+          </div>
+        ))}
+      </div>
+
+      {usedFillers.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {usedFillers.map((filler) => (
+            <span key={filler} className="rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+              &ldquo;{filler}&rdquo; &times; {report.fillerCounts[filler]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {report.timingSource === "audio" && (
+        <p className="text-xs text-gray-500">Timing was measured from the recording, as no word timestamps were available.</p>
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,11 @@ import React from "react";
 
 interface PhoneFrameProps {
   children: React.ReactNode;
+  overlay?: React.ReactNode; // Shown on top of the screen, e.g. a countdown
   className?: string;
 }
 
-export function IPhoneFrame({ children, className }: PhoneFrameProps) {
+export function IPhoneFrame({ children, overlay, className }: PhoneFrameProps) {
   return (
     <div 
       className={`relative mx-auto h-[600px] max-h-[90vh] w-[320px] rounded-[40px] border-[14px] border-black bg-white shadow-xl dark:border-gray-800 ${className}`}
@@ -22,8 +23,9 @@ export function IPhoneFrame({ children, className }: PhoneFrameProps) {
       <div className="absolute -left-[14px] top-32 h-6 w-[2px] rounded-r-lg bg-gray-800 dark:bg-gray-600"></div>
       
       {/* Content */}
-      <div className="h-full w-full overflow-hidden rounded-3xl bg-white dark:bg-gray-900">
+      <div className="relative h-full w-full overflow-hidden rounded-3xl bg-white dark:bg-gray-900">
         {children}
+        {overlay}
       </div>
     </div>
   );
@@ -0,0 +1,22 @@
+import { cn } from "~/lib/utils";
+
+interface LiveTranscriptProps {
+  committedText: string; // Settled by the recognizer
+  pendingText: string; // May still change as the learner keeps speaking
+  className?: string;
+  pendingClassName?: string;
+}
+
+export function LiveTranscript({ committedText, pendingText, className, pendingClassName }: LiveTranscriptProps) {
+  if (!committedText && !pendingText) {
+    return null;
+  }
+
+  return (
+    <p className={className} aria-live="polite">
+      {committedText}
+      {committedText && pendingText && " "}
+      {pendingText && <span className={cn("italic opacity-60", pendingClassName)}>{pendingText}</span>}
+    </p>
+  );
+}
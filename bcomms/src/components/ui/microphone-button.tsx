@@ -1,33 +1,41 @@
-import { Mic, Square, CheckCircle, RefreshCw } from "lucide-react";
+import { Mic, Square, CheckCircle, RefreshCw, Pause, Play } from "lucide-react";
 import { cn } from "~/lib/utils";
 import { Button } from "./button";
 
-export type RecordingState = 'idle' | 'recording' | 'stopping' | 'recorded';
+export type RecordingState = 'idle' | 'recording' | 'paused' | 'stopping' | 'recorded' | 'failed';
 
 interface MicrophoneButtonProps {
   onRecord: () => void;
   onStop: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
   onSubmit?: () => void;
   onTryAgain?: () => void;
   recordingState: RecordingState;
+  level?: number; // Live microphone level from 0 to 1, shown as a ring while recording
   className?: string;
 }
 
 export function MicrophoneButton({
   onRecord,
   onStop,
+  onPause,
+  onResume,
   onSubmit,
   onTryAgain,
   recordingState,
+  level = 0,
   className,
 }: MicrophoneButtonProps) {
   const isRecording = recordingState === 'recording';
+  const isPaused = recordingState === 'paused';
   const isRecorded = recordingState === 'recorded';
   const isStopping = recordingState === 'stopping';
+  const isFailed = recordingState === 'failed';
   
   // Handle the main microphone button click
   const handleMainButtonClick = () => {
-    if (isRecording) {
+    if (isRecording || isPaused) {
       onStop();
     } else if (!isRecorded && !isStopping) {
       onRecord();
@@ -36,35 +44,64 @@ export function MicrophoneButton({
   
   return (
     <div className="flex flex-col items-center gap-4">
-      <Button
-        variant="outline"
-        size="icon"
-        className={cn(
-          "h-16 w-16 rounded-full border-2 transition-all duration-300",
-          isRecording 
-            ? "border-red-500 bg-red-100 text-red-600 animate-pulse" 
-            : isStopping
-              ? "border-orange-500 bg-orange-100 text-orange-600"
-              : isRecorded
-                ? "border-green-500 bg-green-100 text-green-600"
-                : "border-blue-500 bg-blue-100 text-blue-600 hover:bg-blue-200",
-          className
+      <div className="relative">
+        {isRecording && (
+          <div
+            role="meter"
+            aria-label="Microphone level"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(level * 100)}
+            className="absolute inset-0 rounded-full bg-red-400/40 transition-transform duration-75"
+            style={{ transform: `scale(${1 + level * 0.6})` }}
+          />
         )}
-        onClick={handleMainButtonClick}
-        disabled={isStopping}
-        aria-label={isRecording ? "Stop recording" : isStopping ? "Processing..." : "Start recording"}
-      >
-        {isRecording ? (
-          <Square className="h-8 w-8 animate-pulse" />
-        ) : isStopping ? (
-          <RefreshCw className="h-8 w-8 animate-spin" />
-        ) : isRecorded ? (
-          <CheckCircle className="h-8 w-8" />
-        ) : (
-          <Mic className="h-8 w-8" />
-        )}
-      </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className={cn(
+            "h-16 w-16 rounded-full border-2 transition-all duration-300",
+            isRecording 
+              ? "border-red-500 bg-red-100 text-red-600 animate-pulse" 
+              : isPaused
+                ? "border-amber-500 bg-amber-100 text-amber-600"
+                : isStopping
+                  ? "border-orange-500 bg-orange-100 text-orange-600"
+                  : isRecorded
+                    ? "border-green-500 bg-green-100 text-green-600"
+                    : "border-blue-500 bg-blue-100 text-blue-600 hover:bg-blue-200",
+            className
+          )}
+          onClick={handleMainButtonClick}
+          disabled={isStopping}
+          aria-label={isRecording || isPaused ? "Stop recording" : isStopping ? "Processing..." : "Start recording"}
+        >
+          {isRecording ? (
+            <Square className="h-8 w-8 animate-pulse" />
+          ) : isPaused ? (
+            <Square className="h-8 w-8" />
+          ) : isStopping ? (
+            <RefreshCw className="h-8 w-8 animate-spin" />
+          ) : isRecorded ? (
+            <CheckCircle className="h-8 w-8" />
+          ) : (
+            <Mic className="h-8 w-8" />
+          )}
+        </Button>
+      </div>
       
+      {(isRecording || isPaused) && onPause && onResume && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-amber-200 text-amber-700 hover:bg-amber-50"
+          onClick={isPaused ? onResume : onPause}
+        >
+          {isPaused ? <Play className="mr-1 h-3 w-3" /> : <Pause className="mr-1 h-3 w-3" />}
+          {isPaused ? "Resume" : "Pause"}
+        </Button>
+      )}
+
       {isRecorded && (
         <div className="flex gap-2">
           <Button
@@ -90,10 +127,14 @@ export function MicrophoneButton({
       <div className="text-center text-xs text-gray-400">
         {isRecording ? (
           "Recording... Tap to stop"
+        ) : isPaused ? (
+          "Paused. Resume to keep going, or tap to stop"
         ) : isStopping ? (
           "Processing recording..."
         ) : isRecorded ? (
           "Recording complete!"
+        ) : isFailed ? (
+          "Recording failed. Tap to try again"
         ) : (
           "Tap to start recording"
         )}
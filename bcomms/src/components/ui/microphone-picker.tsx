@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AudioRecorder } from "~/lib/services/audio-recorder";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+
+// Select items can't have an empty value, so the browser's default microphone gets its own
+const DEFAULT_DEVICE = "default";
+
+interface MicrophonePickerProps {
+  deviceId?: string; // Undefined for the browser's default microphone
+  onChange: (deviceId: string | undefined) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function MicrophonePicker({ deviceId, onChange, disabled, className }: MicrophonePickerProps) {
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(() => {
+    AudioRecorder.listMicrophones()
+      .then(setMicrophones)
+      .catch((error) => console.warn("Could not list microphones:", error));
+  }, []);
+
+  // Devices come and go (e.g. a headset is plugged in); labels only appear once the
+  // microphone permission is granted, so the list is also refreshed whenever it's opened
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener("devicechange", refresh);
+    return () => navigator.mediaDevices?.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  // Fall back to the default if the chosen microphone was unplugged
+  useEffect(() => {
+    if (deviceId && microphones.length > 0 && !microphones.some((microphone) => microphone.deviceId === deviceId)) {
+      onChange(undefined);
+    }
+  }, [deviceId, microphones, onChange]);
+
+  return (
+    <Select
+      value={deviceId ?? DEFAULT_DEVICE}
+      onValueChange={(value) => onChange(value === DEFAULT_DEVICE ? undefined : value)}
+      onOpenChange={(open) => open && refresh()}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className} aria-label="Microphone">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+        {microphones
+          .filter((microphone) => microphone.deviceId !== DEFAULT_DEVICE)
+          .map((microphone, index) => (
+            <SelectItem key={microphone.deviceId} value={microphone.deviceId}>
+              {microphone.label || `Microphone ${index + 1}`}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
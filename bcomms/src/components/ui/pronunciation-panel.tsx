@@ -0,0 +1,63 @@
+import { cn } from "~/lib/utils";
+import { pronunciationIssueLabels, type PronunciationReport } from "~/lib/analysis/pronunciation";
+
+interface PronunciationPanelProps {
+  report: PronunciationReport;
+  className?: string;
+}
+
+// Get text color based on a 0-100 score
+const getScoreColor = (score: number) => {
+  if (score >= 80) return "text-green-600";
+  if (score >= 60) return "text-amber-600";
+  return "text-red-600";
+};
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+
+export function PronunciationPanel({ report, className }: PronunciationPanelProps) {
+  const flaggedWords = report.words.filter((word) => word.issues.length > 0);
+
+  return (
+    <div className={cn("space-y-3 rounded-lg bg-gray-50 p-3", className)}>
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm font-medium text-gray-600">Pronunciation score</span>
+        <span className={cn("text-lg font-semibold", getScoreColor(report.overallScore))}>
+          {report.overallScore}
+          <span className="text-sm font-normal text-gray-500"> / 100</span>
+        </span>
+      </div>
+
+      {flaggedWords.length > 0 ? (
+        <ul className="space-y-2">
+          {flaggedWords.map((word, index) => (
+            <li key={index} className="flex items-start justify-between gap-2 text-sm">
+              <div>
+                <span className="font-medium text-gray-800">{word.word}</span>
+                <div className="mt-0.5 flex flex-wrap gap-1">
+                  {word.issues.map((issue) => (
+                    <span key={issue} className="rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+                      {pronunciationIssueLabels[issue]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="shrink-0 text-right text-xs text-gray-500">
+                {word.confidence !== undefined && <div>{Math.round(word.confidence * 100)}% confidence</div>}
+                {word.ts !== undefined && <div>at {formatTime(word.ts)}</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-600">No words stood out as hard to understand.</p>
+      )}
+
+      {!report.usedAudio && (
+        <p className="text-xs text-gray-500">
+          The recording couldn&apos;t be analyzed, so this is based on the recognizer&apos;s confidence and timing only.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { cn } from "~/lib/utils";
+import type { AlignedWord, ReadingReport } from "~/lib/analysis/alignment";
+
+interface ReadingDiffProps {
+  report: ReadingReport;
+  className?: string;
+}
+
+// Render one word of the alignment: missed words struck through, misread ones with what was said
+function DiffWord({ word }: { word: AlignedWord }) {
+  switch (word.operation) {
+    case "correct":
+      return <span className="text-gray-800">{word.expected}</span>;
+    case "substitution":
+      return (
+        <span title={`You said "${word.spoken}"`}>
+          <span className="text-red-600 line-through">{word.expected}</span>{" "}
+          <span className="rounded bg-amber-100 px-0.5 text-amber-800">{word.spoken}</span>
+        </span>
+      );
+    case "omission":
+      return (
+        <span className="rounded bg-red-50 px-0.5 text-red-600 line-through" title="Left out">
+          {word.expected}
+        </span>
+      );
+    case "insertion":
+      return (
+        <span className="rounded bg-blue-50 px-0.5 text-blue-700" title="Not in the text">
+          +{word.spoken}
+        </span>
+      );
+  }
+}
+
+export function ReadingDiff({ report, className }: ReadingDiffProps) {
+  const accuracy = Math.max(0, Math.round((1 - report.wordErrorRate) * 100));
+
+  return (
+    <div className={cn("space-y-2 rounded-lg bg-gray-50 p-3 text-sm text-gray-700", className)}>
+      <div className="flex items-center justify-between">
+        <span>Word error rate</span>
+        <span className="font-semibold tabular-nums text-gray-800">
+          {Math.round(report.wordErrorRate * 100)}% ({accuracy}% accurate)
+        </span>
+      </div>
+      <p className="flex flex-wrap gap-x-1.5 gap-y-1 leading-relaxed">
+        {report.words.map((word, index) => (
+          <DiffWord key={index} word={word} />
+        ))}
+      </p>
+      <p className="text-xs text-gray-500">
+        {report.correctCount} of {report.referenceWordCount} words correct · {report.substitutionCount} misread ·{" "}
+        {report.omissionCount} left out · {report.insertionCount} added
+      </p>
+    </div>
+  );
+}
@@ -4,13 +4,33 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "~/components/ui/dropdown-menu";
+import type { PracticeLanguage } from "~/lib/languages";
 import { cn } from "~/lib/utils";
+import {
+  scenarioCategories,
+  scenarioCategoryLabels,
+  scenarioDifficultyLabels,
+  type ScenarioCategory,
+  type ScenarioDifficulty,
+} from "~/lib/scenarios";
 
 export interface Scenario {
+  id: number;
   description: string;
   prompt: string;
+  category: ScenarioCategory;
+  difficulty: ScenarioDifficulty;
+  language: PracticeLanguage;
+  targetSkills: string[];
+  exampleAnswers?: string[];
+  prepSeconds?: number; // Time to prepare before a timed response starts
+  speakSeconds?: number; // Time to answer; the scenario is timed when set
+  referenceText?: string; // Model text to read aloud; enables read-aloud practice
+  customVocabulary: string[]; // Uncommon words and names the recognizer should expect
 }
 
 interface ScenarioDropdownProps {
@@ -50,27 +70,44 @@ export function ScenarioDropdown({
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent className="max-h-[350px] w-[400px] overflow-auto">
-        {scenarios.map((scenario, index) => (
-          <DropdownMenuItem
-            key={index}
-            className={cn(
-              "flex cursor-pointer flex-col items-start py-3",
-              selectedScenario?.description === scenario.description &&
-                "bg-accent"
-            )}
-            onClick={() => onSelect(scenario)}
-          >
-            <div className="flex w-full items-start justify-between">
-              <span className="font-medium break-words pr-4">{scenario.description}</span>
-              {selectedScenario?.description === scenario.description && (
-                <Check className="h-4 w-4 flex-shrink-0 mt-1" />
-              )}
+        {scenarioCategories.map((category, categoryIndex) => {
+          const categoryScenarios = scenarios.filter(
+            (scenario) => scenario.category === category
+          );
+          if (categoryScenarios.length === 0) return null;
+
+          return (
+            <div key={category}>
+              {categoryIndex > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuLabel className="text-xs uppercase text-muted-foreground">
+                {scenarioCategoryLabels[category]}
+              </DropdownMenuLabel>
+              {categoryScenarios.map((scenario) => (
+                <DropdownMenuItem
+                  key={scenario.id}
+                  className={cn(
+                    "flex cursor-pointer flex-col items-start py-3",
+                    selectedScenario?.id === scenario.id && "bg-accent"
+                  )}
+                  onClick={() => onSelect(scenario)}
+                >
+                  <div className="flex w-full items-start justify-between">
+                    <span className="font-medium break-words pr-4">{scenario.description}</span>
+                    {selectedScenario?.id === scenario.id && (
+                      <Check className="h-4 w-4 flex-shrink-0 mt-1" />
+                    )}
+                  </div>
+                  <span className="text-sm text-muted-foreground break-words">
+                    {scenario.prompt}
+                  </span>
+                  <span className="mt-1 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">
+                    {scenarioDifficultyLabels[scenario.difficulty]}
+                  </span>
+                </DropdownMenuItem>
+              ))}
             </div>
-            <span className="text-sm text-muted-foreground break-words">
-              {scenario.prompt}
-            </span>
-          </DropdownMenuItem>
-        ))}
+          );
+        })}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -0,0 +1,70 @@
+import { cn } from "~/lib/utils";
+import {
+  MAX_RUBRIC_SCORE,
+  rubricCriteria,
+  rubricLabels,
+  type RubricScores,
+} from "~/lib/services/groq-service";
+
+interface ScorePanelProps {
+  scores: RubricScores;
+  className?: string;
+}
+
+/**
+ * Average of the rubric scores, rounded to one decimal place
+ */
+export function averageRubricScore(scores: RubricScores): number {
+  const total = rubricCriteria.reduce((sum, criterion) => sum + scores[criterion].score, 0);
+  return Math.round((total / rubricCriteria.length) * 10) / 10;
+}
+
+// Get bar color based on score
+const getScoreColor = (score: number) => {
+  if (score >= 4) return "bg-green-500";
+  if (score >= 3) return "bg-amber-400";
+  return "bg-red-500";
+};
+
+export function ScorePanel({ scores, className }: ScorePanelProps) {
+  return (
+    <div className={cn("space-y-3 rounded-lg bg-gray-50 p-3", className)}>
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm font-medium text-gray-600">Average</span>
+        <span className="text-lg font-semibold text-gray-800">
+          {averageRubricScore(scores).toFixed(1)}
+          <span className="text-sm font-normal text-gray-500"> / {MAX_RUBRIC_SCORE}</span>
+        </span>
+      </div>
+
+      {rubricCriteria.map((criterion) => {
+        const { score, justification } = scores[criterion];
+
+        return (
+          <div key={criterion}>
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-700">{rubricLabels[criterion]}</span>
+              <span className="text-gray-600">
+                {score} / {MAX_RUBRIC_SCORE}
+              </span>
+            </div>
+            <div className="mt-1 flex gap-1" aria-hidden>
+              {Array.from({ length: MAX_RUBRIC_SCORE }, (_, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "h-1.5 flex-1 rounded-full",
+                    index < score ? getScoreColor(score) : "bg-gray-200"
+                  )}
+                />
+              ))}
+            </div>
+            {justification && (
+              <p className="mt-1 text-xs text-gray-500">{justification}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
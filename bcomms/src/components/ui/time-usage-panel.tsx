@@ -0,0 +1,41 @@
+import { cn } from "~/lib/utils";
+import { formatCountdown, type TimeUsage } from "~/lib/timed-response-machine";
+
+interface TimeUsagePanelProps {
+  usage: TimeUsage;
+  className?: string;
+}
+
+// Answers using less than this share of the time are probably too short for an exam task
+const SHORT_ANSWER_SHARE = 0.5;
+
+// Describe how the learner used the speaking time
+const describeUsage = (usage: TimeUsage) => {
+  if (usage.usedSeconds >= usage.speakSeconds) return "Cut off when the time ran out";
+  if (usage.usedSeconds < usage.speakSeconds * SHORT_ANSWER_SHARE) return "Finished well before the time was up";
+  return "Finished within the time";
+};
+
+export function TimeUsagePanel({ usage, className }: TimeUsagePanelProps) {
+  const share = usage.speakSeconds > 0 ? Math.min(1, usage.usedSeconds / usage.speakSeconds) : 0;
+
+  return (
+    <div className={cn("space-y-2 rounded-lg bg-gray-50 p-3 text-sm text-gray-700", className)}>
+      <div className="flex items-center justify-between">
+        <span>Speaking time</span>
+        <span className="font-semibold tabular-nums text-gray-800">
+          {formatCountdown(usage.usedSeconds)} of {formatCountdown(usage.speakSeconds)}
+        </span>
+      </div>
+      <div className="h-2 overflow-hidden rounded-full bg-gray-200">
+        <div className="h-full bg-cyan-500" style={{ width: `${share * 100}%` }} />
+      </div>
+      <p className="text-xs text-gray-500">{describeUsage(usage)}</p>
+      {usage.prepSeconds > 0 && (
+        <p className="text-xs text-gray-500">
+          Prepared for {formatCountdown(usage.preparedSeconds)} of {formatCountdown(usage.prepSeconds)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useMemo } from "react";
+import { Undo2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { diffTranscript } from "~/lib/analysis/transcript-edits";
+import { cn } from "~/lib/utils";
+
+interface TranscriptEditorProps {
+  recognizedText: string; // What the recognizer heard
+  value: string; // The transcript as the learner corrected it
+  onChange: (text: string) => void;
+  className?: string;
+}
+
+/**
+ * Lets the learner fix words the recognizer misheard before asking for feedback
+ */
+export function TranscriptEditor({ recognizedText, value, onChange, className }: TranscriptEditorProps) {
+  const correction = useMemo(() => diffTranscript(recognizedText, value), [recognizedText, value]);
+
+  return (
+    <div className={cn("space-y-1 text-left", className)}>
+      <label className="block text-xs font-medium text-gray-500">
+        Did we hear you right? Fix any misheard words before submitting.
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="mt-1 w-full resize-none rounded-md border bg-white p-2 text-sm font-normal text-gray-800"
+          rows={4}
+        />
+      </label>
+      {correction.changedWordCount > 0 && (
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>
+            {correction.changedWordCount} {correction.changedWordCount === 1 ? "word" : "words"} corrected
+          </span>
+          <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-xs" onClick={() => onChange(recognizedText)}>
+            <Undo2 className="h-3 w-3" />
+            Undo corrections
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { cn } from "~/lib/utils";
+import { isLowConfidence, type TranscriptWord } from "~/lib/services/transcription-engine";
+
+interface TranscriptViewProps {
+  text: string;
+  words?: TranscriptWord[];
+  currentTime?: number; // Playback position of the recording, to highlight the word being heard
+  onSeek?: (seconds: number) => void; // Called with a word's start time when it is clicked
+  className?: string;
+}
+
+interface TranscriptToken {
+  value: string;
+  word?: TranscriptWord;
+}
+
+// How far ahead to look for a token's word when the assembled text and the word list drift apart
+const MATCH_LOOKAHEAD = 3;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+
+/**
+ * Pair each word of the displayed text with its recognized word, keeping the text's
+ * punctuation and spacing. Tokens without a match are shown without highlighting.
+ */
+function matchWords(text: string, words: TranscriptWord[]): TranscriptToken[] {
+  let nextWord = 0;
+
+  return text.split(/(\s+)/).map((value) => {
+    const normalized = normalize(value);
+    if (!normalized) {
+      return { value };
+    }
+
+    for (let index = nextWord; index < Math.min(words.length, nextWord + MATCH_LOOKAHEAD); index++) {
+      const word = words[index];
+      if (word && normalize(word.text) === normalized) {
+        nextWord = index + 1;
+        return { value, word };
+      }
+    }
+
+    return { value };
+  });
+}
+
+const isPlaying = (word: TranscriptWord, currentTime?: number) =>
+  currentTime !== undefined &&
+  word.ts !== undefined &&
+  word.endTs !== undefined &&
+  currentTime >= word.ts &&
+  currentTime < word.endTs;
+
+/**
+ * Transcript with the words the recognizer was unsure about underlined. While the recording
+ * plays, the word being heard is highlighted and clicking a word jumps to it.
+ */
+export function TranscriptView({ text, words = [], currentTime, onSeek, className }: TranscriptViewProps) {
+  const tokens = matchWords(text, words);
+  const hasLowConfidenceWords = tokens.some((token) => token.word && isLowConfidence(token.word));
+
+  return (
+    <div className={className}>
+      <p>
+        {tokens.map((token, index) => {
+          const { word } = token;
+          if (!word) {
+            return <span key={index}>{token.value}</span>;
+          }
+
+          const lowConfidence = isLowConfidence(word);
+          const start = word.ts;
+          const canSeek = onSeek !== undefined && start !== undefined;
+
+          return (
+            <span
+              key={index}
+              className={cn(
+                "rounded-sm transition-colors",
+                lowConfidence && "bg-amber-100 underline decoration-amber-500 decoration-wavy",
+                isPlaying(word, currentTime) && "bg-blue-200",
+                canSeek && "cursor-pointer hover:bg-blue-100"
+              )}
+              title={lowConfidence ? `Recognizer confidence: ${Math.round((word.confidence ?? 0) * 100)}%` : undefined}
+              onClick={canSeek ? () => onSeek(start) : undefined}
+            >
+              {token.value}
+            </span>
+          );
+        })}
+      </p>
+      {hasLowConfidenceWords && (
+        <p className="mt-2 text-xs text-gray-500">
+          Highlighted words were hard for the recognizer to understand - check how you pronounced them.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -13,11 +13,22 @@ export const env = createEnv({
         : z.string().optional(),
     AUTH_DISCORD_ID: z.string().optional(),
     AUTH_DISCORD_SECRET: z.string().optional(),
+    INSTRUCTOR_USER_IDS: z.string().optional(),
+    DATABASE_URL: z.string().url(),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
     REVAI_API_KEY: z.string().optional(),
+    WHISPER_URL: z.string().url().optional(),
+    WHISPER_MODEL: z.string().optional(),
     GROQ_API_KEY: z.string().optional(),
+    LLM_PROVIDER: z
+      .enum(["groq", "openai", "ollama", "llamacpp"])
+      .default("groq"),
+    LLM_MODEL: z.string().optional(),
+    LLM_BASE_URL: z.string().url().optional(),
+    LLM_API_KEY: z.string().optional(),
+    RECORDING_RETENTION_DAYS: z.coerce.number().int().min(0).default(30),
   },
 
   /**
@@ -26,7 +37,9 @@ export const env = createEnv({
    * `NEXT_PUBLIC_`.
    */
   client: {
-    // NEXT_PUBLIC_CLIENTVAR: z.string(),
+    NEXT_PUBLIC_TRANSCRIPTION_ENGINE: z
+      .enum(["revai", "whisper"])
+      .default("revai"),
   },
 
   /**
@@ -37,10 +50,20 @@ export const env = createEnv({
     AUTH_SECRET: process.env.AUTH_SECRET,
     AUTH_DISCORD_ID: process.env.AUTH_DISCORD_ID,
     AUTH_DISCORD_SECRET: process.env.AUTH_DISCORD_SECRET,
+    INSTRUCTOR_USER_IDS: process.env.INSTRUCTOR_USER_IDS,
+    DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
     REVAI_API_KEY: process.env.REVAI_API_KEY,
+    WHISPER_URL: process.env.WHISPER_URL,
+    WHISPER_MODEL: process.env.WHISPER_MODEL,
     GROQ_API_KEY: process.env.GROQ_API_KEY,
-    // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_MODEL: process.env.LLM_MODEL,
+    LLM_BASE_URL: process.env.LLM_BASE_URL,
+    LLM_API_KEY: process.env.LLM_API_KEY,
+    RECORDING_RETENTION_DAYS: process.env.RECORDING_RETENTION_DAYS,
+    NEXT_PUBLIC_TRANSCRIPTION_ENGINE:
+      process.env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
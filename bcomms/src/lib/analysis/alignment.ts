@@ -0,0 +1,114 @@
+/**
+ * Word-by-word alignment of what the learner read aloud against the reference text. This is
+ * the edit-distance alignment speech recognizers are scored with, so the word error rate
+ * follows the usual definition: (substitutions + omissions + insertions) / reference words.
+ */
+
+export type AlignmentOperation = 'correct' | 'substitution' | 'omission' | 'insertion';
+
+export interface AlignedWord {
+  operation: AlignmentOperation;
+  expected?: string; // The word from the reference text, missing for insertions
+  spoken?: string; // The word the learner said, missing for omissions
+}
+
+export interface ReadingReport {
+  referenceText: string;
+  words: AlignedWord[]; // In reading order
+  referenceWordCount: number;
+  correctCount: number;
+  substitutionCount: number;
+  omissionCount: number;
+  insertionCount: number;
+  wordErrorRate: number; // 0 is a perfect reading; above 1 when there were many insertions
+}
+
+interface Token {
+  display: string;
+  normalized: string;
+}
+
+// Compare words regardless of case, punctuation and the style of apostrophe
+const normalize = (value: string) => value.toLowerCase().replace(/[’‘]/g, "'").replace(/[^\p{L}\p{N}']/gu, '');
+
+function tokenize(text: string): Token[] {
+  return text
+    .split(/\s+/)
+    .map(word => ({ display: word.replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, ''), normalized: normalize(word) }))
+    .filter(token => token.normalized.length > 0);
+}
+
+/**
+ * Align two texts word by word, ignoring case and punctuation. Words of `reference` are the
+ * expected ones, words of `hypothesis` the spoken ones.
+ */
+export function alignWords(reference: string, hypothesis: string): AlignedWord[] {
+  const expected = tokenize(reference);
+  const spoken = tokenize(hypothesis);
+  const rows = expected.length + 1;
+  const columns = spoken.length + 1;
+
+  // distances[i * columns + j] is the edit distance between the first i expected and first j spoken words
+  const distances = new Uint32Array(rows * columns);
+  for (let i = 0; i < rows; i++) distances[i * columns] = i;
+  for (let j = 0; j < columns; j++) distances[j] = j;
+
+  const distance = (i: number, j: number) => distances[i * columns + j] ?? 0;
+  const matches = (i: number, j: number) => expected[i - 1]?.normalized === spoken[j - 1]?.normalized;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < columns; j++) {
+      distances[i * columns + j] = Math.min(
+        distance(i - 1, j - 1) + (matches(i, j) ? 0 : 1),
+        distance(i - 1, j) + 1,
+        distance(i, j - 1) + 1
+      );
+    }
+  }
+
+  // Walk back from the end, preferring matches and substitutions over an omission plus an insertion
+  const words: AlignedWord[] = [];
+  let i = expected.length;
+  let j = spoken.length;
+  while (i > 0 || j > 0) {
+    const expectedWord = expected[i - 1]?.display;
+    const spokenWord = spoken[j - 1]?.display;
+
+    if (i > 0 && j > 0 && distance(i, j) === distance(i - 1, j - 1) + (matches(i, j) ? 0 : 1)) {
+      words.push({ operation: matches(i, j) ? 'correct' : 'substitution', expected: expectedWord, spoken: spokenWord });
+      i--;
+      j--;
+    } else if (i > 0 && distance(i, j) === distance(i - 1, j) + 1) {
+      words.push({ operation: 'omission', expected: expectedWord });
+      i--;
+    } else {
+      words.push({ operation: 'insertion', spoken: spokenWord });
+      j--;
+    }
+  }
+  return words.reverse();
+}
+
+/**
+ * Align the transcript of a reading against the reference text
+ */
+export function alignReading(referenceText: string, transcription: string): ReadingReport {
+  const words = alignWords(referenceText, transcription);
+  const count = (operation: AlignmentOperation) => words.filter(word => word.operation === operation).length;
+  const substitutionCount = count('substitution');
+  const omissionCount = count('omission');
+  const insertionCount = count('insertion');
+  const errors = substitutionCount + omissionCount + insertionCount;
+  const referenceWordCount = words.length - insertionCount;
+
+  return {
+    referenceText,
+    words,
+    referenceWordCount,
+    correctCount: count('correct'),
+    substitutionCount,
+    omissionCount,
+    insertionCount,
+    wordErrorRate: referenceWordCount > 0 ? Math.round((errors / referenceWordCount) * 1000) / 1000 : 0,
+  };
+}
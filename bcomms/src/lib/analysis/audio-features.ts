@@ -0,0 +1,73 @@
+/**
+ * Helpers for measuring the recorded audio in the browser, shared by the speech analyzers
+ */
+
+export interface DecodedAudio {
+  samples: Float32Array; // Mono samples in the range -1...1
+  sampleRate: number;
+  duration: number; // Seconds
+}
+
+// Decode at the rate the recorder asks for; plenty for loudness measurements
+const DECODE_SAMPLE_RATE = 16000;
+
+/**
+ * Decode a recording to mono samples
+ * @returns null when the browser can't decode the recording, e.g. an empty or dummy blob
+ */
+export async function decodeAudio(blob: Blob): Promise<DecodedAudio | null> {
+  if (typeof OfflineAudioContext === 'undefined' || blob.size <= 4) {
+    return null;
+  }
+
+  try {
+    const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+
+    // Mix all channels down to mono
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        samples[i] = (samples[i] ?? 0) + (data[i] ?? 0) / buffer.numberOfChannels;
+      }
+    }
+
+    return { samples, sampleRate: buffer.sampleRate, duration: buffer.duration };
+  } catch (error) {
+    console.warn('Could not decode recorded audio for analysis:', error);
+    return null;
+  }
+}
+
+/**
+ * Root-mean-square loudness of the audio between two times, in seconds
+ */
+export function rmsBetween(audio: DecodedAudio, start: number, end: number): number {
+  const from = Math.max(0, Math.floor(start * audio.sampleRate));
+  const to = Math.min(audio.samples.length, Math.ceil(end * audio.sampleRate));
+  if (to <= from) {
+    return 0;
+  }
+
+  let sum = 0;
+  for (let i = from; i < to; i++) {
+    const sample = audio.samples[i] ?? 0;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / (to - from));
+}
+
+/**
+ * Median of a list of numbers, or 0 for an empty list
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2
+    : sorted[middle] ?? 0;
+}
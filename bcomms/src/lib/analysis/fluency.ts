@@ -0,0 +1,194 @@
+import { median, rmsBetween, type DecodedAudio } from '~/lib/analysis/audio-features';
+import type { TranscriptWord } from '~/lib/services/transcription-engine';
+import { DEFAULT_PRACTICE_LANGUAGE, type PracticeLanguage } from '~/lib/languages';
+
+/**
+ * Fluency metrics coaches track by hand: speaking rate, pauses and filler words.
+ * Timing comes from the recognizer's word timestamps, or from the recording when the
+ * engine didn't report any.
+ */
+
+// Outside English only unambiguous hesitation sounds and phrases are counted, e.g. not Spanish
+// "este", which is as often "this" as it is a filler
+export const fillerWords: Record<PracticeLanguage, readonly string[]> = {
+  en: ['um', 'uh', 'like', 'you know'],
+  es: ['eh', 'em', 'o sea'],
+  fr: ['euh', 'ben', 'bah'],
+};
+
+// Spellings recognizers use for the same hesitation sound
+const FILLER_VARIANTS: Record<string, string> = {
+  umm: 'um',
+  uhm: 'um',
+  er: 'uh',
+  erm: 'uh',
+  ehm: 'em',
+  heu: 'euh',
+};
+
+export interface FluencyReport {
+  wordCount: number;
+  fillerCounts: Record<string, number>; // For each filler of the practice language
+  fillerCount: number;
+  fillersPerHundredWords: number;
+  // Timing metrics, missing when neither word timestamps nor the recording were available
+  speakingSeconds?: number;
+  wordsPerMinute?: number;
+  pauseCount?: number;
+  averagePauseSeconds?: number;
+  longestPauseSeconds?: number;
+  timingSource?: 'timestamps' | 'audio';
+}
+
+// Silences at least this long between words count as pauses
+const PAUSE_THRESHOLD_SECONDS = 0.5;
+
+// Loudness is measured in short frames when detecting pauses from the recording
+const FRAME_SECONDS = 0.02;
+
+// Frames quieter than this fraction of the typical voiced loudness count as silence
+const SILENCE_RATIO = 0.2;
+
+// Below this the recording is treated as silence, whatever the speaker's level
+const MIN_VOICE_RMS = 0.01;
+
+// "Would like" and "I'd like" are not fillers
+const NON_FILLER_LIKE_PREFIXES = new Set(['would', "i'd", "we'd", "you'd", "he'd", "she'd", "they'd", 'feel', 'looks', 'look']);
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/**
+ * Count the filler words of the practice language in a transcript
+ */
+function countFillers(tokens: string[], language: PracticeLanguage): Record<string, number> {
+  const fillers = fillerWords[language];
+  const counts = Object.fromEntries(fillers.map(filler => [filler, 0]));
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const phrase = `${token} ${tokens[index + 1]}`;
+    const filler = FILLER_VARIANTS[token] ?? token;
+
+    if (counts[phrase] !== undefined) {
+      counts[phrase]++;
+    } else if (filler === 'like') {
+      if (counts.like !== undefined && !(previous && NON_FILLER_LIKE_PREFIXES.has(previous))) {
+        counts.like++;
+      }
+    } else if (counts[filler] !== undefined) {
+      counts[filler]++;
+    }
+  });
+
+  return counts;
+}
+
+interface Timing {
+  speakingSeconds: number;
+  pauses: number[];
+}
+
+/**
+ * Speaking time and pauses from the gaps between timed words
+ */
+function timingFromWords(words: TranscriptWord[]): Timing | null {
+  const timed = words.filter((word): word is TranscriptWord & { ts: number; endTs: number } =>
+    word.ts !== undefined && word.endTs !== undefined
+  );
+  const first = timed[0];
+  const last = timed[timed.length - 1];
+  if (!first || !last || last.endTs <= first.ts) {
+    return null;
+  }
+
+  const pauses: number[] = [];
+  let previousEnd = first.endTs;
+  for (const word of timed.slice(1)) {
+    const gap = word.ts - previousEnd;
+    if (gap >= PAUSE_THRESHOLD_SECONDS) {
+      pauses.push(gap);
+    }
+    previousEnd = word.endTs;
+  }
+
+  return { speakingSeconds: last.endTs - first.ts, pauses };
+}
+
+/**
+ * Speaking time and pauses from the silent stretches of the recording
+ */
+function timingFromAudio(audio: DecodedAudio): Timing | null {
+  const frameCount = Math.floor(audio.duration / FRAME_SECONDS);
+  const loudness = Array.from({ length: frameCount }, (_, frame) =>
+    rmsBetween(audio, frame * FRAME_SECONDS, (frame + 1) * FRAME_SECONDS)
+  );
+
+  const typicalLoudness = median(loudness.filter(value => value >= MIN_VOICE_RMS));
+  const threshold = Math.max(MIN_VOICE_RMS, typicalLoudness * SILENCE_RATIO);
+  const voiced = loudness.map(value => value >= threshold);
+
+  const firstVoiced = voiced.indexOf(true);
+  const lastVoiced = voiced.lastIndexOf(true);
+  if (firstVoiced === -1 || lastVoiced <= firstVoiced) {
+    return null;
+  }
+
+  // Only silences between the first and last sound count, not the lead-in and tail of the recording
+  const pauses: number[] = [];
+  let silentFrames = 0;
+  for (let frame = firstVoiced; frame <= lastVoiced; frame++) {
+    if (voiced[frame]) {
+      if (silentFrames * FRAME_SECONDS >= PAUSE_THRESHOLD_SECONDS) {
+        pauses.push(silentFrames * FRAME_SECONDS);
+      }
+      silentFrames = 0;
+    } else {
+      silentFrames++;
+    }
+  }
+
+  return { speakingSeconds: (lastVoiced - firstVoiced + 1) * FRAME_SECONDS, pauses };
+}
+
+const roundTo = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Measure how fluently the learner spoke
+ * @param words Recognized words; their timestamps are preferred for timing
+ * @param audio The decoded recording, used for timing when the words have no timestamps
+ */
+export function analyzeFluency(
+  transcription: string,
+  words: TranscriptWord[],
+  audio?: DecodedAudio | null,
+  language: PracticeLanguage = DEFAULT_PRACTICE_LANGUAGE
+): FluencyReport {
+  const tokens = transcription.split(/\s+/).map(normalize).filter(token => token.length > 0);
+  const fillerCounts = countFillers(tokens, language);
+  const fillerCount = Object.values(fillerCounts).reduce((total, count) => total + count, 0);
+
+  const report: FluencyReport = {
+    wordCount: tokens.length,
+    fillerCounts,
+    fillerCount,
+    fillersPerHundredWords: tokens.length > 0 ? roundTo((fillerCount / tokens.length) * 100, 1) : 0,
+  };
+
+  const wordTiming = timingFromWords(words);
+  const timing = wordTiming ?? (audio ? timingFromAudio(audio) : null);
+  if (!timing) {
+    return report;
+  }
+
+  const totalPause = timing.pauses.reduce((total, pause) => total + pause, 0);
+
+  return {
+    ...report,
+    speakingSeconds: roundTo(timing.speakingSeconds, 1),
+    wordsPerMinute: Math.round((tokens.length / timing.speakingSeconds) * 60),
+    pauseCount: timing.pauses.length,
+    averagePauseSeconds: timing.pauses.length > 0 ? roundTo(totalPause / timing.pauses.length, 1) : 0,
+    longestPauseSeconds: roundTo(Math.max(0, ...timing.pauses), 1),
+    timingSource: wordTiming ? 'timestamps' : 'audio',
+  };
+}
@@ -0,0 +1,152 @@
+import { median, rmsBetween, type DecodedAudio } from '~/lib/analysis/audio-features';
+import { DEFAULT_PRACTICE_LANGUAGE, type PracticeLanguage } from '~/lib/languages';
+import { LOW_CONFIDENCE_THRESHOLD, type TranscriptWord } from '~/lib/services/transcription-engine';
+
+/**
+ * Per-word pronunciation report built from what we can actually measure: how sure the
+ * recognizer was about each word, the pauses around it and, when the recording can be
+ * decoded, how loud and how long the word was.
+ */
+
+export const pronunciationIssues = ['unclear', 'hesitation', 'quiet', 'rushed', 'drawnOut'] as const;
+export type PronunciationIssue = (typeof pronunciationIssues)[number];
+
+export const pronunciationIssueLabels: Record<PronunciationIssue, string> = {
+  unclear: 'Unclear',
+  hesitation: 'Hesitation before',
+  quiet: 'Too quiet',
+  rushed: 'Rushed',
+  drawnOut: 'Drawn out',
+};
+
+export interface WordPronunciation {
+  word: string;
+  ts?: number;
+  endTs?: number;
+  confidence?: number;
+  score: number; // 0-100
+  issues: PronunciationIssue[];
+}
+
+export interface PronunciationReport {
+  overallScore: number; // 0-100, average of the word scores
+  words: WordPronunciation[];
+  usedAudio: boolean; // Whether loudness and duration could be measured from the recording
+}
+
+// A pause this long before a word suggests the speaker was unsure how to say it
+const HESITATION_GAP_SECONDS = 0.7;
+
+// Words much quieter than the speaker's typical word are often swallowed
+const QUIET_RATIO = 0.35;
+
+// Rough speaking time per syllable, used to spot words said far too fast or too slowly
+const SECONDS_PER_SYLLABLE = 0.2;
+const RUSHED_RATIO = 0.4;
+const DRAWN_OUT_RATIO = 2.5;
+
+// Score used for words the recognizer gave no confidence for
+const DEFAULT_CONFIDENCE = 0.85;
+
+const ISSUE_PENALTIES: Record<PronunciationIssue, number> = {
+  unclear: 0, // Already reflected in the confidence part of the score
+  hesitation: 10,
+  quiet: 15,
+  rushed: 10,
+  drawnOut: 10,
+};
+
+// Vowel groups of each practice language, accented vowels included
+const VOWEL_GROUPS: Record<PracticeLanguage, RegExp> = {
+  en: /[aeiouy]+/g,
+  es: /[aeiouáéíóúü]+/g,
+  fr: /[aeiouyàâäéèêëîïôöùûüÿœæ]+/g,
+};
+
+// Languages where a final "e" is usually silent ("make", "parle")
+const SILENT_FINAL_E_LANGUAGES: readonly PracticeLanguage[] = ['en', 'fr'];
+
+/**
+ * Estimate the number of syllables in a word from its vowel groups
+ */
+function countSyllables(word: string, language: PracticeLanguage): number {
+  let letters = word.toLowerCase().replace(/[^\p{L}]/gu, '');
+  if (SILENT_FINAL_E_LANGUAGES.includes(language)) {
+    letters = letters.replace(/e$/, '');
+  }
+  const groups = letters.match(VOWEL_GROUPS[language]);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+function hasTiming(word: TranscriptWord): word is TranscriptWord & { ts: number; endTs: number } {
+  return word.ts !== undefined && word.endTs !== undefined && word.endTs > word.ts;
+}
+
+/**
+ * Analyze the pronunciation of each recognized word
+ * @param audio The decoded recording from AudioRecorder.onStop, if available
+ * @param language The practice language, used to count each word's syllables
+ */
+export function analyzePronunciation(
+  words: TranscriptWord[],
+  audio?: DecodedAudio | null,
+  language: PracticeLanguage = DEFAULT_PRACTICE_LANGUAGE
+): PronunciationReport {
+  const decoded = audio ?? null;
+
+  // Loudness of each timed word, compared against the speaker's median word loudness
+  const loudness = words.map(word => (decoded && hasTiming(word) ? rmsBetween(decoded, word.ts, word.endTs) : undefined));
+  const typicalLoudness = median(loudness.filter((value): value is number => value !== undefined && value > 0));
+
+  const reportWords = words.map((word, index): WordPronunciation => {
+    const issues: PronunciationIssue[] = [];
+    const confidence = word.confidence ?? DEFAULT_CONFIDENCE;
+
+    if (word.confidence !== undefined && word.confidence < LOW_CONFIDENCE_THRESHOLD) {
+      issues.push('unclear');
+    }
+
+    const previous = index > 0 ? words[index - 1] : undefined;
+    if (previous?.endTs !== undefined && word.ts !== undefined && word.ts - previous.endTs >= HESITATION_GAP_SECONDS) {
+      issues.push('hesitation');
+    }
+
+    const wordLoudness = loudness[index];
+    if (wordLoudness !== undefined && typicalLoudness > 0 && wordLoudness < typicalLoudness * QUIET_RATIO) {
+      issues.push('quiet');
+    }
+
+    if (hasTiming(word)) {
+      const duration = word.endTs - word.ts;
+      const syllables = countSyllables(word.text, language);
+      const expected = syllables * SECONDS_PER_SYLLABLE;
+      // Short function words ("a", "the") are naturally quick, so only judge longer words as rushed
+      if (duration < expected * RUSHED_RATIO && syllables > 1) {
+        issues.push('rushed');
+      } else if (duration > expected * DRAWN_OUT_RATIO) {
+        issues.push('drawnOut');
+      }
+    }
+
+    const penalty = issues.reduce((total, issue) => total + ISSUE_PENALTIES[issue], 0);
+
+    return {
+      word: word.text,
+      ts: word.ts,
+      endTs: word.endTs,
+      confidence: word.confidence,
+      score: Math.max(0, Math.round(confidence * 100 - penalty)),
+      issues,
+    };
+  });
+
+  const overallScore = reportWords.length > 0
+    ? Math.round(reportWords.reduce((total, word) => total + word.score, 0) / reportWords.length)
+    : 0;
+
+  return {
+    overallScore,
+    words: reportWords,
+    usedAudio: decoded !== null,
+  };
+}
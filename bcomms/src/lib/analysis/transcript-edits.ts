@@ -0,0 +1,71 @@
+/**
+ * Corrections the learner made to the recognizer's transcript before asking for feedback. They
+ * tell the coach which words were misheard rather than misspoken, and how often the recognizer
+ * gets this learner wrong.
+ */
+
+import { alignWords } from '~/lib/analysis/alignment';
+
+/**
+ * One changed stretch of the transcript; a word added by the learner has no `recognized` text,
+ * a word they removed has no `corrected` text
+ */
+export interface TranscriptEdit {
+  recognized?: string;
+  corrected?: string;
+}
+
+export interface TranscriptCorrection {
+  recognizedText: string;
+  correctedText: string;
+  edits: TranscriptEdit[];
+  recognizedWordCount: number;
+  changedWordCount: number; // Recognized words the learner replaced or removed, plus words they added
+  editRate: number; // changedWordCount per recognized word, 0 when nothing was corrected
+}
+
+/**
+ * Compare the learner's corrected transcript with what the recognizer heard. Changes to case
+ * and punctuation don't count, only changed words.
+ */
+export function diffTranscript(recognizedText: string, correctedText: string): TranscriptCorrection {
+  const words = alignWords(recognizedText, correctedText);
+  const edits: TranscriptEdit[] = [];
+  let recognized: string[] = [];
+  let corrected: string[] = [];
+
+  // Adjacent changes form one edit, e.g. "I scream" corrected to "ice cream"
+  const closeEdit = () => {
+    if (recognized.length > 0 || corrected.length > 0) {
+      edits.push({
+        recognized: recognized.length > 0 ? recognized.join(' ') : undefined,
+        corrected: corrected.length > 0 ? corrected.join(' ') : undefined,
+      });
+    }
+    recognized = [];
+    corrected = [];
+  };
+
+  let changedWordCount = 0;
+  for (const word of words) {
+    if (word.operation === 'correct') {
+      closeEdit();
+      continue;
+    }
+    changedWordCount++;
+    if (word.expected) recognized.push(word.expected);
+    if (word.spoken) corrected.push(word.spoken);
+  }
+  closeEdit();
+
+  const recognizedWordCount = words.filter(word => word.operation !== 'insertion').length;
+
+  return {
+    recognizedText,
+    correctedText,
+    edits,
+    recognizedWordCount,
+    changedWordCount,
+    editRate: recognizedWordCount > 0 ? Math.round((changedWordCount / recognizedWordCount) * 1000) / 1000 : 0,
+  };
+}
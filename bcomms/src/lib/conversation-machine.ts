@@ -0,0 +1,112 @@
+import type { DialogueTurn } from "~/lib/services/conversation-service";
+
+/**
+ * Turn-based state machine for role-play conversations.
+ *
+ * The learner's turns reuse the normal recording flow (idle → recording → stopping → recorded);
+ * this machine only tracks whose turn it is and the dialogue so far:
+ *
+ *   idle → partnerThinking → partnerSpeaking → learnerTurn → partnerThinking → ... → evaluating → complete
+ *
+ * `partnerSpeaking` is skipped when replies are not spoken aloud.
+ */
+
+// Safety net so a conversation cannot go on forever
+export const MAX_LEARNER_TURNS = 8;
+
+export type ConversationPhase =
+  | 'idle'
+  | 'partnerThinking'
+  | 'partnerSpeaking'
+  | 'learnerTurn'
+  | 'evaluating'
+  | 'complete';
+
+export interface ConversationState {
+  phase: ConversationPhase;
+  turns: DialogueTurn[];
+  partnerClosed: boolean; // The partner has wrapped up, so evaluate after their last line
+  error: string | null;
+}
+
+export type ConversationEvent =
+  | { type: 'START' }
+  | { type: 'PARTNER_REPLIED'; text: string; isComplete: boolean; speak: boolean }
+  | { type: 'PARTNER_FINISHED_SPEAKING' }
+  | { type: 'LEARNER_TURN_RECORDED'; text: string }
+  | { type: 'END' }
+  | { type: 'EVALUATED' }
+  | { type: 'FAILED'; error: string }
+  | { type: 'RESET' };
+
+export const initialConversationState: ConversationState = {
+  phase: 'idle',
+  turns: [],
+  partnerClosed: false,
+  error: null,
+};
+
+function countLearnerTurns(turns: DialogueTurn[]): number {
+  return turns.filter(turn => turn.role === 'learner').length;
+}
+
+/**
+ * Events that don't apply to the current phase are ignored, so late async results
+ * (e.g. a reply arriving after the user reset) cannot corrupt the conversation.
+ */
+export function conversationReducer(
+  state: ConversationState,
+  event: ConversationEvent
+): ConversationState {
+  switch (event.type) {
+    case 'START':
+      if (state.phase !== 'idle' && state.phase !== 'complete') return state;
+      return { ...initialConversationState, phase: 'partnerThinking' };
+
+    case 'PARTNER_REPLIED': {
+      if (state.phase !== 'partnerThinking') return state;
+      const turns: DialogueTurn[] = [...state.turns, { role: 'partner', text: event.text }];
+      const nextPhase = event.speak
+        ? 'partnerSpeaking'
+        : event.isComplete ? 'evaluating' : 'learnerTurn';
+      return { ...state, phase: nextPhase, turns, partnerClosed: event.isComplete, error: null };
+    }
+
+    case 'PARTNER_FINISHED_SPEAKING':
+      if (state.phase !== 'partnerSpeaking') return state;
+      return { ...state, phase: state.partnerClosed ? 'evaluating' : 'learnerTurn' };
+
+    case 'LEARNER_TURN_RECORDED': {
+      if (state.phase !== 'learnerTurn') return state;
+      const turns: DialogueTurn[] = [...state.turns, { role: 'learner', text: event.text }];
+      const nextPhase = countLearnerTurns(turns) >= MAX_LEARNER_TURNS ? 'evaluating' : 'partnerThinking';
+      return { ...state, phase: nextPhase, turns, error: null };
+    }
+
+    case 'END':
+      if (state.phase !== 'learnerTurn' && state.phase !== 'partnerSpeaking') return state;
+      // Nothing to evaluate until the learner has said something
+      if (countLearnerTurns(state.turns) === 0) return initialConversationState;
+      return { ...state, phase: 'evaluating' };
+
+    case 'EVALUATED':
+      if (state.phase !== 'evaluating') return state;
+      return { ...state, phase: 'complete' };
+
+    case 'FAILED':
+      // Let the learner carry on (or end) if the partner fails to reply
+      if (state.phase === 'partnerThinking') {
+        return { ...state, phase: 'learnerTurn', error: event.error };
+      }
+      if (state.phase === 'evaluating') {
+        return { ...state, phase: 'complete', error: event.error };
+      }
+      return { ...state, error: event.error };
+
+    case 'RESET':
+      return initialConversationState;
+
+    default:
+      return state;
+  }
+}
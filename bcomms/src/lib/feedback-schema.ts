@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { MAX_RUBRIC_SCORE, MIN_RUBRIC_SCORE } from '~/lib/services/groq-service';
+
+// Schema for the feedback payload, shared by /api/feedback (to validate the model's output) and the attempt router
+
+export const rubricScoreSchema = z.object({
+  // Models sometimes quote numbers, so accept "4" as well as 4
+  score: z.coerce.number().int().min(MIN_RUBRIC_SCORE).max(MAX_RUBRIC_SCORE),
+  justification: z.string().min(1),
+});
+
+export const rubricScoresSchema = z.object({
+  clarity: rubricScoreSchema,
+  politeness: rubricScoreSchema,
+  taskCompletion: rubricScoreSchema,
+  grammar: rubricScoreSchema,
+  vocabulary: rubricScoreSchema,
+});
+
+export const feedbackSchema = z.object({
+  strengths: z.array(z.string().min(1)),
+  improvements: z.array(z.string().min(1)),
+  overallFeedback: z.string().min(1),
+  scores: rubricScoresSchema,
+});
+
+/**
+ * Format validation issues as one line each, e.g. "scores.grammar.score: Number must be less than or equal to 5"
+ */
+export function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
@@ -0,0 +1,33 @@
+/**
+ * Languages learners can practice in. Each scenario belongs to one of them, and the practice
+ * language is passed to transcription, sentiment analysis and the feedback and conversation prompts.
+ */
+
+export const practiceLanguages = ['en', 'es', 'fr'] as const;
+export type PracticeLanguage = (typeof practiceLanguages)[number];
+
+export const DEFAULT_PRACTICE_LANGUAGE: PracticeLanguage = 'en';
+
+export const practiceLanguageNames: Record<PracticeLanguage, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+};
+
+// BCP 47 tags for the browser, e.g. to pick a speech synthesis voice
+export const practiceLanguageTags: Record<PracticeLanguage, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+};
+
+export function isPracticeLanguage(value: unknown): value is PracticeLanguage {
+  return typeof value === 'string' && (practiceLanguages as readonly string[]).includes(value);
+}
+
+/**
+ * Message for a feature that a provider doesn't offer in the practice language
+ */
+export function unsupportedLanguageMessage(feature: string, language: PracticeLanguage): string {
+  return `${feature} isn't available in ${practiceLanguageNames[language]}.`;
+}
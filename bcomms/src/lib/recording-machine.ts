@@ -0,0 +1,194 @@
+import type { RecordingState } from "~/components/ui/microphone-button";
+import type { TranscriptionResult, TranscriptWord } from "~/lib/services/transcription-engine";
+
+/**
+ * State machine for recording one answer:
+ *
+ *   idle → recording → stopping → recorded
+ *           ↑   ↓  ↘          ↘
+ *          paused   failed     failed
+ *
+ * A paused recording can also be stopped straight away. Once recorded, the learner can correct
+ * the transcript (TRANSCRIPT_CORRECTED) before submitting it; the recognizer's version is kept.
+ * Events come from the user (START, PAUSE, RESUME, STOP, RESET), the AudioRecorder (AUDIO_STOPPED) and the
+ * transcription engine (TRANSCRIPT_UPDATED, TRANSCRIPT_COMPLETED, TRANSCRIPTION_FAILED).
+ * `stopping` ends when the engine reports the final transcript, or when STOP_TIMED_OUT fires
+ * if it never does. It fails straight away when the recorder heard no speech and there is no
+ * transcript to wait for.
+ * A recording made earlier and uploaded (UPLOADED) goes straight to `stopping`, and waits there
+ * for its transcription job however long it takes.
+ */
+
+// How long to wait for the final transcript after recording stops
+export const STOP_TIMEOUT_MS = 10000;
+
+export interface RecordingMachineState {
+  status: RecordingState;
+  source: 'microphone' | 'upload';
+  transcription: string;
+  committedText: string; // The part of the transcription the engine won't revise
+  pendingText: string; // The tail that may still change while the learner speaks
+  words: TranscriptWord[];
+  correctedText: string | null; // The learner's correction of the transcription, if they made one
+  audio: Blob | null; // The recording, trimmed to the speech, once the recorder has stopped
+  audioOffset: number; // Seconds trimmed from the start of the recording
+  error: string | null;
+}
+
+export type RecordingEvent =
+  | { type: 'START' }
+  | { type: 'PAUSE' }
+  | { type: 'RESUME' }
+  | { type: 'STOP' }
+  | { type: 'UPLOADED'; recording: Blob }
+  | { type: 'AUDIO_STOPPED'; recording: Blob; speechDetected: boolean; trimmedSeconds: number }
+  | { type: 'TRANSCRIPT_UPDATED'; result: TranscriptionResult }
+  | { type: 'TRANSCRIPT_COMPLETED'; result: TranscriptionResult }
+  | { type: 'TRANSCRIPT_CORRECTED'; text: string }
+  | { type: 'TRANSCRIPTION_FAILED'; error: string }
+  | { type: 'STOP_TIMED_OUT' }
+  | { type: 'FAILED'; error: string }
+  | { type: 'RESET' };
+
+export const initialRecordingState: RecordingMachineState = {
+  status: 'idle',
+  source: 'microphone',
+  transcription: '',
+  committedText: '',
+  pendingText: '',
+  words: [],
+  correctedText: null,
+  audio: null,
+  audioOffset: 0,
+  error: null,
+};
+
+/**
+ * Take the engine's latest transcript. Engines that don't say which part is settled have it all
+ * pending until the final result.
+ */
+function withTranscript(state: RecordingMachineState, result: TranscriptionResult): RecordingMachineState {
+  return {
+    ...state,
+    transcription: result.text,
+    committedText: result.committedText ?? (result.isFinal ? result.text : ''),
+    pendingText: result.pendingText ?? (result.isFinal ? '' : result.text),
+    words: result.words ?? [],
+  };
+}
+
+const isCapturing = (state: RecordingMachineState) => state.status === 'recording' || state.status === 'paused';
+const isActive = (state: RecordingMachineState) => isCapturing(state) || state.status === 'stopping';
+
+/**
+ * Finish stopping with whatever transcript there is, or fail when there is none
+ */
+function settle(state: RecordingMachineState, failure: string): RecordingMachineState {
+  if (state.transcription.trim()) {
+    return { ...state, status: 'recorded', error: null };
+  }
+  return { ...state, status: 'failed', error: failure };
+}
+
+/**
+ * Events that don't apply to the current status are ignored, so late callbacks from a
+ * recording the user already abandoned cannot change the current one.
+ */
+export function recordingReducer(
+  state: RecordingMachineState,
+  event: RecordingEvent
+): RecordingMachineState {
+  switch (event.type) {
+    case 'START':
+      if (isActive(state)) return state;
+      return { ...initialRecordingState, status: 'recording' };
+
+    case 'PAUSE':
+      if (state.status !== 'recording') return state;
+      return { ...state, status: 'paused' };
+
+    case 'RESUME':
+      if (state.status !== 'paused') return state;
+      return { ...state, status: 'recording' };
+
+    case 'STOP':
+      if (!isCapturing(state)) return state;
+      return { ...state, status: 'stopping' };
+
+    case 'UPLOADED':
+      if (isActive(state)) return state;
+      return { ...initialRecordingState, status: 'stopping', source: 'upload', audio: event.recording };
+
+    case 'AUDIO_STOPPED':
+      // The recording can still arrive after the transcript, keep it for playback
+      if (state.status !== 'stopping' && state.status !== 'recorded') return state;
+      // Trust the recognizer over the detector when it heard something
+      if (!event.speechDetected && state.status === 'stopping' && !state.transcription.trim()) {
+        return { ...state, status: 'failed', error: 'No speech was detected. Please check that the right microphone is selected and try again.' };
+      }
+      if (event.recording.size === 0) return state;
+      return { ...state, audio: event.recording, audioOffset: event.trimmedSeconds };
+
+    case 'TRANSCRIPT_UPDATED':
+      if (!isActive(state)) return state;
+      return withTranscript(state, event.result);
+
+    case 'TRANSCRIPT_COMPLETED': {
+      if (!isActive(state)) return state;
+      const updated = withTranscript(state, event.result);
+      // Some engines finish early (e.g. the connection closed); keep recording until the user stops
+      if (isCapturing(state)) return updated;
+      return settle(updated, 'No speech detected. Please check your microphone and try again.');
+    }
+
+    case 'TRANSCRIPT_CORRECTED':
+      if (state.status !== 'recorded') return state;
+      // Correcting it back to what was recognized is no correction
+      return { ...state, correctedText: event.text === state.transcription ? null : event.text };
+
+    case 'TRANSCRIPTION_FAILED':
+      if (state.status === 'stopping') {
+        return settle(state, `Transcription error: ${event.error}`);
+      }
+      if (isCapturing(state)) {
+        return { ...state, error: `Transcription error: ${event.error}` };
+      }
+      return state;
+
+    case 'STOP_TIMED_OUT':
+      if (state.status !== 'stopping' || state.source === 'upload') return state;
+      return settle(state, 'No transcription received. Please check your microphone and try again.');
+
+    case 'FAILED':
+      if (!isActive(state)) return state;
+      return { ...state, status: 'failed', error: event.error };
+
+    case 'RESET':
+      return initialRecordingState;
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * The recognized words, timed from the start of the trimmed recording
+ */
+export function recordingWords(state: RecordingMachineState): TranscriptWord[] {
+  const offset = state.audioOffset;
+  if (offset === 0) {
+    return state.words;
+  }
+  return state.words.map(word => ({
+    ...word,
+    ts: word.ts === undefined ? undefined : Math.max(0, word.ts - offset),
+    endTs: word.endTs === undefined ? undefined : Math.max(0, word.endTs - offset),
+  }));
+}
+
+/**
+ * The transcript to submit: the learner's correction, or what the recognizer heard
+ */
+export function submittedTranscript(state: RecordingMachineState): string {
+  return state.correctedText ?? state.transcription;
+}
@@ -0,0 +1,60 @@
+/**
+ * Fixed-size FIFO buffer that overwrites its oldest item when full
+ */
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+  private dropped = 0;
+
+  constructor(private readonly capacity: number) {
+    if (capacity < 1) {
+      throw new Error('Ring buffer capacity must be at least 1');
+    }
+    this.items = new Array<T | undefined>(capacity);
+  }
+
+  /**
+   * Add an item, dropping the oldest one if the buffer is full
+   */
+  push(item: T): void {
+    if (this.count === this.capacity) {
+      this.start = (this.start + 1) % this.capacity;
+      this.count--;
+      this.dropped++;
+    }
+    this.items[(this.start + this.count) % this.capacity] = item;
+    this.count++;
+  }
+
+  /**
+   * Remove and return all items, oldest first
+   */
+  drain(): T[] {
+    const drained: T[] = [];
+    for (let i = 0; i < this.count; i++) {
+      const index = (this.start + i) % this.capacity;
+      drained.push(this.items[index] as T);
+      this.items[index] = undefined;
+    }
+    this.start = 0;
+    this.count = 0;
+    return drained;
+  }
+
+  clear(): void {
+    this.drain();
+    this.dropped = 0;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * How many items were overwritten since the buffer was last cleared
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+}
@@ -0,0 +1,32 @@
+// Categories and difficulty levels shared by the scenario library, its tRPC router and the UI
+
+export const scenarioCategories = ['phone_calls', 'retail', 'workplace', 'social'] as const;
+export type ScenarioCategory = (typeof scenarioCategories)[number];
+
+export const scenarioDifficulties = ['beginner', 'intermediate', 'advanced'] as const;
+export type ScenarioDifficulty = (typeof scenarioDifficulties)[number];
+
+export const scenarioCategoryLabels: Record<ScenarioCategory, string> = {
+  phone_calls: 'Phone Calls',
+  retail: 'Retail',
+  workplace: 'Workplace',
+  social: 'Social',
+};
+
+export const scenarioDifficultyLabels: Record<ScenarioDifficulty, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+// Limits for timed scenarios, which give a fixed time to prepare and to answer, in seconds
+export const MAX_PREP_SECONDS = 300;
+export const MIN_SPEAK_SECONDS = 10;
+export const MAX_SPEAK_SECONDS = 600;
+
+// Read-aloud texts are a sentence or a short paragraph, not a whole page
+export const MAX_REFERENCE_TEXT_LENGTH = 1000;
+
+// Custom vocabulary is for a scenario's few uncommon words and names, not a dictionary
+export const MAX_CUSTOM_VOCABULARY_PHRASES = 100;
+export const MAX_CUSTOM_VOCABULARY_PHRASE_LENGTH = 100;
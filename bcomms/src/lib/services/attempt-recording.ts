@@ -0,0 +1,26 @@
+/**
+ * URL the stored recording of an attempt is played back from
+ */
+export function attemptRecordingUrl(attemptId: number): string {
+  return `/api/attempts/${attemptId}/recording`;
+}
+
+/**
+ * Store the recording of a saved attempt so it can be replayed from the practice history
+ */
+export async function uploadAttemptRecording(attemptId: number, recording: Blob): Promise<void> {
+  const formData = new FormData();
+  // Raw PCM recordings are kept as WAV, the others in the container they were recorded in
+  const extension = recording.type.includes('wav') ? 'wav' : recording.type.includes('ogg') ? 'ogg' : 'webm';
+  formData.append('audio', recording, `recording.${extension}`);
+
+  const response = await fetch(attemptRecordingUrl(attemptId), {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to upload recording (${response.status}): ${errorText}`);
+  }
+}
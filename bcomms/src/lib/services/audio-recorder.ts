@@ -1,20 +1,150 @@
+import { decodeAudio } from '~/lib/analysis/audio-features';
+import { frameRms, VoiceActivityDetector } from '~/lib/voice-activity';
+
+export interface RecordingDetails {
+  speechDetected: boolean; // False when the voice activity detector heard no speech at all
+  trimmedSeconds: number; // Leading silence cut from the recording, to line up word timestamps
+}
+
   export interface AudioRecorderOptions {
   onDataAvailable?: (data: Blob) => void;
-  onStop?: (recording: Blob) => void;
+  onStop?: (recording: Blob, details: RecordingDetails) => void;
+  onLevel?: (level: number) => void; // Microphone level from 0 to 1, several times a second while recording
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  onAutoStop?: () => void; // Called before the recorder stops itself after autoStopAfterSilenceMs
+  autoStopAfterSilenceMs?: number; // Stop once it has been quiet this long after speech; off when unset
   mimeType?: string;
   sampleRate?: number;
+  contentType?: string; // Format to record in, see AudioRecorder.negotiateContentType
+  deviceId?: string; // Microphone to record from, see AudioRecorder.listMicrophones; the default when unset
+}
+
+// Sample rate of the raw PCM capture, what speech recognizers are trained on
+export const PCM_SAMPLE_RATE = 16000;
+
+// Raw 16-bit little-endian mono PCM, as streamed to Rev.ai
+export const RAW_PCM_CONTENT_TYPE = `audio/x-raw;layout=interleaved;rate=${PCM_SAMPLE_RATE};format=S16LE;channels=1`;
+
+// Served from /public, AudioWorklet modules have to be loaded by URL
+const PCM_WORKLET_URL = '/worklets/pcm-capture-processor.js';
+
+// Audio goes to the transcription engine in chunks of this many milliseconds, PCM or compressed
+export const AUDIO_CHUNK_MS = 250;
+const PCM_CHUNK_SAMPLES = PCM_SAMPLE_RATE * AUDIO_CHUNK_MS / 1000;
+
+const isRawPcm = (contentType?: string) => contentType?.startsWith('audio/x-raw') ?? false;
+
+// How often the microphone level is checked for voice activity
+const VAD_INTERVAL_MS = 30;
+
+// Levels below this many decibels show as an empty meter
+const METER_FLOOR_DB = -60;
+
+/**
+ * Map loudness onto a 0-1 meter level on a decibel scale, which matches how loud it sounds
+ */
+function meterLevel(rms: number): number {
+  const decibels = 20 * Math.log10(Math.max(rms, 1e-8));
+  return Math.max(0, Math.min(1, 1 - decibels / METER_FLOOR_DB));
+}
+
+// Silence kept before and after the speech when trimming, so words aren't clipped
+const TRIM_LEAD_SECONDS = 0.3;
+const TRIM_TAIL_SECONDS = 0.5;
+
+// Compressed recordings are only re-encoded when trimming saves at least this much
+const MIN_TRIM_SECONDS = 1;
+
+/**
+ * Convert samples in the range -1...1 to 16-bit PCM
+ */
+function floatToPcm(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  samples.forEach((sample, index) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    pcm[index] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+  });
+  return pcm;
+}
+
+/**
+ * Wrap raw PCM chunks in a WAV header so the recording can be played back and decoded
+ */
+function encodeWav(pcmChunks: Blob[], sampleRate: number): Blob {
+  const dataSize = pcmChunks.reduce((total, chunk) => total + chunk.size, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // Size of the fmt chunk
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Bytes per second
+  header.setUint16(32, 2, true); // Bytes per frame
+  header.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataSize, true);
+
+  return new Blob([header.buffer, ...pcmChunks], { type: 'audio/wav' });
 }
 
 /**
  * A service for recording audio from the user's microphone,
  * optimized for the Rev.ai streaming API requirements.
- * Uses 16kHz mono audio format as recommended by Rev.ai.
+ *
+ * Records either with MediaRecorder (webm/ogg/mp4 chunks) or, for raw PCM, with an AudioWorklet
+ * that resamples the microphone to 16kHz mono S16LE. The raw recording is handed to onStop as a WAV file.
  */
 export class AudioRecorder {
   private mediaRecorder: MediaRecorder | null = null;
   private audioChunks: Blob[] = [];
   private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private vad: VoiceActivityDetector | null = null;
+  private vadTimer: ReturnType<typeof setInterval> | null = null;
+  private captureStartedAt: number | null = null; // AudioContext time the recorder started capturing
+  private isStopping = false;
+  private isPaused = false;
+  private pausedAt: number | null = null; // AudioContext time of the current pause
+  private pausedSeconds = 0; // Time spent paused, which isn't part of the recording
+  private resumedAt = 0; // Recording time of the last resume, silence before it doesn't count for auto-stop
   private _options: AudioRecorderOptions;
+
+  /**
+   * Pick the first content type the transcription engine accepts that this browser can record
+   * @returns null if the browser can record none of them
+   */
+  static negotiateContentType(accepted: readonly string[]): string | null {
+    for (const contentType of accepted) {
+      if (isRawPcm(contentType)) {
+        if (typeof AudioWorkletNode !== 'undefined') return contentType;
+      } else if (typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(contentType)) {
+        return contentType;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The microphones the browser can record from. Their labels are empty until the user
+   * has granted microphone access.
+   */
+  static async listMicrophones(): Promise<MediaDeviceInfo[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return [];
+    }
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    // Some browsers hide the device ids until access is granted, those can't be selected
+    return devices.filter(device => device.kind === 'audioinput' && device.deviceId);
+  }
   
   // Getter for options
   get options(): AudioRecorderOptions {
@@ -22,7 +152,7 @@ export class AudioRecorder {
   }
   
   // Setter for onStop handler
-  set onStop(handler: ((recording: Blob) => void) | undefined) {
+  set onStop(handler: ((recording: Blob, details: RecordingDetails) => void) | undefined) {
     this._options.onStop = handler;
   }
 
@@ -42,10 +172,18 @@ export class AudioRecorder {
     try {
       // Reset state
       this.audioChunks = [];
+      this.vad = null;
+      this.captureStartedAt = null;
+      this.isStopping = false;
+      this.isPaused = false;
+      this.pausedAt = null;
+      this.pausedSeconds = 0;
+      this.resumedAt = 0;
       
       // Request microphone access with the specific constraints required by Rev.ai
       this.stream = await navigator.mediaDevices.getUserMedia({
         audio: {
+          deviceId: this._options.deviceId ? { exact: this._options.deviceId } : undefined,
           sampleRate: 16000, // Rev.ai works best with 16kHz
           channelCount: 1,   // Mono audio as required by Rev.ai
           echoCancellation: true,
@@ -82,13 +220,26 @@ export class AudioRecorder {
         console.warn("No audio tracks found in stream despite earlier check");
       }
 
+      // Voice activity detection is a bonus; recording works without it
+      try {
+        this.startVoiceActivityDetection(this.stream);
+      } catch (vadError) {
+        console.warn('Voice activity detection unavailable:', vadError);
+      }
+
+      if (isRawPcm(this._options.contentType)) {
+        await this.startPcmCapture(this.stream);
+        return;
+      }
+
       // Set up the MediaRecorder with the appropriate MIME type
       // Note: Browser support for specific MIME types may vary
       let mimeType = '';
       
-      // Check format support in this order of preference
+      // Check format support in this order of preference, starting with the negotiated format
       // Prioritize widely supported formats first, then try more specialized formats
       const supportedTypes = [
+        ...(this._options.contentType ? [this._options.contentType] : []),
         'audio/webm',               // Generic WebM - widely supported in modern browsers
         'audio/webm;codecs=opus',   // Opus in WebM container - good support
         'audio/ogg;codecs=opus',    // Opus in Ogg container - good support
@@ -114,11 +265,11 @@ export class AudioRecorder {
       // Create MediaRecorder with explicit options
       const options: MediaRecorderOptions = {
         mimeType: mimeType || undefined,
-        audioBitsPerSecond: 16000 // Match Rev.ai's expected sample rate
+        audioBitsPerSecond: 32000 // A bitrate, not a sample rate; enough to keep speech clear for recognition
       };
       
       this.mediaRecorder = new MediaRecorder(this.stream, options);
-      console.log(`MediaRecorder created with format: ${this.mediaRecorder.mimeType}, bitrate: 16kbps`);
+      console.log(`MediaRecorder created with format: ${this.mediaRecorder.mimeType}, bitrate: 32kbps`);
       
       // Set up event handlers
       this.setupMediaRecorderEvents();
@@ -128,8 +279,9 @@ export class AudioRecorder {
       
       // Start recording with 250ms chunks - larger chunks may be more reliable
       // than very small chunks in some browsers
-      this.mediaRecorder.start(250);
-      console.log(`Recording started with format: ${mimeType || 'default'}, sample rate: 16kHz, mono channel, chunk interval: 250ms`);
+      this.mediaRecorder.start(AUDIO_CHUNK_MS);
+      this.markCaptureStarted();
+      console.log(`Recording started with format: ${mimeType || 'default'}, mono channel, chunk interval: ${AUDIO_CHUNK_MS}ms`);
       
       // Set multiple safety timers to ensure we get data
       // First check after 500ms
@@ -173,9 +325,10 @@ export class AudioRecorder {
         if (this.mediaRecorder && this.mediaRecorder.state === "recording" && this.audioChunks.length === 0) {
           console.log('No audio chunks received after 2000ms, attempting recorder restart with different format');
           try {
-            // Try stopping the current recorder
+            // Try stopping the current recorder, without finishing the recording or releasing the stream
             const currentRecorder = this.mediaRecorder;
             if (currentRecorder) {
+              currentRecorder.onstop = null;
               currentRecorder.stop();
             }
             
@@ -185,7 +338,7 @@ export class AudioRecorder {
                 // Try a different format as fallback - use the most basic format
                 const fallbackOptions: MediaRecorderOptions = {
                   mimeType: 'audio/webm', // Most basic and widely supported format
-                  audioBitsPerSecond: 16000
+                  audioBitsPerSecond: 32000
                 };
                 
                 try {
@@ -198,34 +351,204 @@ export class AudioRecorder {
                   // Start with larger chunks for reliability
                   this.mediaRecorder.start(500);
                   console.log('MediaRecorder restarted with fallback format and 500ms chunk interval');
-                  
-                  // Create a dummy audio chunk to ensure we have at least something
-                  // This ensures we don't get stuck in the "stopping" state with no data
-                  this.createDummyAudioChunk();
                 } catch (newRecorderError) {
+                  // Stopping then reports an empty recording with no speech detected
                   console.error('Failed to create new MediaRecorder with fallback format:', newRecorderError);
-                  
-                  // Last resort - create a dummy audio chunk to prevent UI from getting stuck
-                  this.createDummyAudioChunk();
                 }
               } else {
-                // Stream is no longer active, create a dummy chunk as last resort
-                this.createDummyAudioChunk();
+                console.warn('Stream is no longer active, cannot restart the recorder');
               }
             }, 200);
           } catch (restartError) {
             console.error('Error attempting to restart recorder:', restartError);
-            // Create a dummy chunk as last resort
-            this.createDummyAudioChunk();
           }
         }
       }, 2000);
     } catch (error) {
       console.error('Error starting recording:', error);
+      if (error instanceof DOMException && error.name === 'OverconstrainedError' && this._options.deviceId) {
+        throw new Error('Failed to start recording: the selected microphone is not available. Please choose another one.');
+      }
       throw new Error(`Failed to start recording: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Capture raw PCM with an AudioWorklet. The worklet resamples to 16kHz itself, since not every
+   * browser can connect a microphone to an AudioContext running at a different rate.
+   */
+  private async startPcmCapture(stream: MediaStream): Promise<void> {
+    this.audioContext ??= new AudioContext();
+    await this.audioContext.audioWorklet.addModule(PCM_WORKLET_URL);
+
+    const source = this.audioContext.createMediaStreamSource(stream);
+    this.workletNode = new AudioWorkletNode(this.audioContext, 'pcm-capture', {
+      processorOptions: { targetSampleRate: PCM_SAMPLE_RATE, chunkSamples: PCM_CHUNK_SAMPLES }
+    });
+
+    this.workletNode.port.onmessage = (event: MessageEvent<ArrayBuffer | { type: 'flushed' }>) => {
+      if (event.data instanceof ArrayBuffer) {
+        const chunk = new Blob([event.data], { type: RAW_PCM_CONTENT_TYPE });
+        this.audioChunks.push(chunk);
+        this._options.onDataAvailable?.(chunk);
+      } else if (event.data.type === 'flushed') {
+        this.finishPcmCapture();
+      }
+    };
+
+    // The worklet outputs silence; connecting it keeps the graph pulling audio through it
+    source.connect(this.workletNode);
+    this.workletNode.connect(this.audioContext.destination);
+    this.markCaptureStarted();
+    console.log(`Recording raw PCM at ${PCM_SAMPLE_RATE}Hz (microphone at ${this.audioContext.sampleRate}Hz), chunk interval: ${AUDIO_CHUNK_MS}ms`);
+  }
+
+  /**
+   * Hand over the raw recording as a WAV file, trimmed to the speech, and release the audio graph
+   */
+  private finishPcmCapture(): void {
+    console.log(`PCM capture stopped. Total chunks: ${this.audioChunks.length}`);
+    this.closeAudioContext();
+    this.stopStream();
+
+    const speech = this.trimBounds(Infinity);
+    if (!speech) {
+      this.reportStop(encodeWav(this.audioChunks, PCM_SAMPLE_RATE), 0);
+      return;
+    }
+
+    void new Blob(this.audioChunks).arrayBuffer().then((buffer) => {
+      const samples = new Int16Array(buffer, 0, Math.floor(buffer.byteLength / 2));
+      const trimmed = samples.slice(Math.floor(speech.start * PCM_SAMPLE_RATE), Math.ceil(speech.end * PCM_SAMPLE_RATE));
+      this.reportStop(encodeWav([new Blob([trimmed.buffer])], PCM_SAMPLE_RATE), speech.start);
+    });
+  }
+
+  /**
+   * Trim a compressed recording by decoding it and re-encoding the speech as WAV. The recording
+   * is kept as it is when it can't be decoded, there is little silence to cut, or the WAV would
+   * be bigger than the compressed original (it usually is, unless most of it was silence).
+   */
+  private async finishCompressedRecording(recording: Blob): Promise<void> {
+    const audio = await decodeAudio(recording);
+    const speech = audio ? this.trimBounds(audio.duration) : null;
+    if (!audio || !speech || audio.duration - (speech.end - speech.start) < MIN_TRIM_SECONDS) {
+      this.reportStop(recording, 0);
+      return;
+    }
+
+    const samples = audio.samples.subarray(Math.floor(speech.start * audio.sampleRate), Math.ceil(speech.end * audio.sampleRate));
+    const trimmed = encodeWav([new Blob([floatToPcm(samples).buffer])], audio.sampleRate);
+    if (trimmed.size >= recording.size) {
+      this.reportStop(recording, 0);
+      return;
+    }
+    this.reportStop(trimmed, speech.start);
+  }
+
+  /**
+   * The part of the recording to keep, padded around the detected speech
+   * @returns null when nothing should be trimmed
+   */
+  private trimBounds(duration: number): { start: number; end: number } | null {
+    const speech = this.vad?.speechBounds;
+    if (!speech) {
+      return null;
+    }
+    return {
+      start: Math.max(0, speech.start - TRIM_LEAD_SECONDS),
+      end: Math.min(duration, speech.end + TRIM_TAIL_SECONDS),
+    };
+  }
+
+  private reportStop(recording: Blob, trimmedSeconds: number): void {
+    // Without a detector, any captured audio has to count as possible speech
+    const speechDetected = this.vad ? this.vad.hasDetectedSpeech : this.audioChunks.some(chunk => chunk.size > 0);
+    console.log(`Recording finished: ${recording.size} bytes, speech detected: ${speechDetected}, trimmed ${trimmedSeconds.toFixed(2)}s of leading silence`);
+    this._options.onStop?.(recording, { speechDetected, trimmedSeconds });
+  }
+
+  /**
+   * Watch the microphone level for speech, alongside whichever way the audio is captured
+   */
+  private startVoiceActivityDetection(stream: MediaStream): void {
+    const context = (this.audioContext ??= new AudioContext());
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(analyser);
+
+    const vad = new VoiceActivityDetector({
+      onSpeechStart: (time) => {
+        console.log(`Speech started at ${time.toFixed(2)}s`);
+        this._options.onSpeechStart?.();
+      },
+      onSpeechEnd: (time) => {
+        console.log(`Speech ended at ${time.toFixed(2)}s`);
+        this._options.onSpeechEnd?.();
+      },
+    });
+    this.vad = vad;
+
+    const frame = new Float32Array(analyser.fftSize);
+    this.vadTimer = setInterval(() => {
+      const time = this.recordingTime();
+      if (time === null || this.isPaused) {
+        return;
+      }
+      analyser.getFloatTimeDomainData(frame);
+      const rms = frameRms(frame);
+      vad.process(rms, time);
+      this._options.onLevel?.(meterLevel(rms));
+
+      const autoStopMs = this._options.autoStopAfterSilenceMs;
+      const silenceMs = Math.min(vad.silenceSeconds(time), time - this.resumedAt) * 1000;
+      if (autoStopMs && !this.isStopping && silenceMs >= autoStopMs) {
+        console.log(`No speech for ${autoStopMs}ms, stopping automatically`);
+        this._options.onAutoStop?.();
+        this.stopRecording();
+      }
+    }, VAD_INTERVAL_MS);
+  }
+
+  private markCaptureStarted(): void {
+    this.captureStartedAt = this.audioContext?.currentTime ?? null;
+  }
+
+  /**
+   * Seconds recorded so far, leaving out pauses, or null before capturing has started
+   */
+  private recordingTime(): number | null {
+    if (!this.audioContext || this.captureStartedAt === null) {
+      return null;
+    }
+    const now = this.pausedAt ?? this.audioContext.currentTime;
+    return now - this.captureStartedAt - this.pausedSeconds;
+  }
+
+  /**
+   * Stop listening for speech, ending any speech still going on
+   */
+  private stopVoiceActivityDetection(): void {
+    if (this.vadTimer) {
+      clearInterval(this.vadTimer);
+      this.vadTimer = null;
+    }
+    const time = this.recordingTime();
+    if (this.vad && time !== null) {
+      this.vad.finish(time);
+    }
+  }
+
+  private closeAudioContext(): void {
+    this.stopVoiceActivityDetection();
+    this.workletNode?.disconnect();
+    this.workletNode = null;
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      void this.audioContext.close();
+    }
+    this.audioContext = null;
+  }
+
   /**
    * Set up event handlers for the MediaRecorder
    */
@@ -287,39 +610,25 @@ export class AudioRecorder {
       const audioBlob = new Blob(this.audioChunks, { type: mimeType });
       console.log(`Created audio blob: ${audioBlob.size} bytes, type: ${audioBlob.type}`);
       
-      if (this._options.onStop) {
-        this._options.onStop(audioBlob);
-      }
-      
+      this.closeAudioContext();
       this.stopStream();
+      void this.finishCompressedRecording(audioBlob);
     };
   }
 
-  /**
-   * Creates a minimal dummy audio chunk to prevent the UI from getting stuck
-   * when no real audio data is captured
-   */
-  private createDummyAudioChunk(): void {
-    console.log('Creating dummy audio chunk to prevent UI from getting stuck');
-    
-    // Create a minimal audio blob - just enough to prevent the UI from getting stuck
-    const dummyBlob = new Blob([new Uint8Array([0, 0, 0, 0])], { type: 'audio/webm' });
-    
-    // Add to our chunks array
-    this.audioChunks.push(dummyBlob);
-    
-    // Call the onDataAvailable callback if it exists
-    if (this._options.onDataAvailable) {
-      this._options.onDataAvailable(dummyBlob);
-    }
-    
-    console.log('Dummy audio chunk created and processed');
-  }
-
   /**
    * Stop recording audio
    */
   stopRecording(): void {
+    this.isStopping = true;
+    this.stopVoiceActivityDetection();
+
+    // Ask the worklet for the last samples, onStop follows once they arrive
+    if (this.workletNode) {
+      this.workletNode.port.postMessage('flush');
+      return;
+    }
+
     if (this.mediaRecorder && (this.mediaRecorder.state === "recording" || this.mediaRecorder.state === "paused")) {
       try {
         // Request data one last time before stopping to ensure we get the final audio
@@ -328,10 +637,8 @@ export class AudioRecorder {
           this.mediaRecorder.requestData();
         }
         
-        // Check if we have any audio chunks before stopping
         if (this.audioChunks.length === 0) {
-          console.warn('No audio chunks collected before stopping, creating dummy chunk');
-          this.createDummyAudioChunk();
+          console.warn('No audio chunks collected before stopping');
         }
         
         // Small delay to allow the final data to be processed
@@ -357,10 +664,59 @@ export class AudioRecorder {
     }
   }
 
+  /**
+   * Pause recording, keeping the microphone open so it can resume straight away
+   */
+  pauseRecording(): void {
+    if (this.isPaused || this.isStopping) {
+      return;
+    }
+
+    if (this.workletNode) {
+      this.workletNode.port.postMessage('pause');
+    } else if (this.mediaRecorder?.state === 'recording') {
+      // Hand over the audio so far before pausing
+      this.mediaRecorder.requestData();
+      this.mediaRecorder.pause();
+    } else {
+      return;
+    }
+
+    this.isPaused = true;
+    this.pausedAt = this.audioContext?.currentTime ?? null;
+    console.log('Recording paused');
+  }
+
+  /**
+   * Resume a paused recording
+   */
+  resumeRecording(): void {
+    if (!this.isPaused || this.isStopping) {
+      return;
+    }
+
+    if (this.workletNode) {
+      this.workletNode.port.postMessage('resume');
+    } else if (this.mediaRecorder?.state === 'paused') {
+      this.mediaRecorder.resume();
+    }
+
+    if (this.audioContext && this.pausedAt !== null) {
+      this.pausedSeconds += this.audioContext.currentTime - this.pausedAt;
+    }
+    this.pausedAt = null;
+    this.isPaused = false;
+    this.resumedAt = this.recordingTime() ?? 0;
+    console.log('Recording resumed');
+  }
+
   /**
    * Get the current recording state
    */
   getState(): string {
+    if (this.workletNode) {
+      return this.isPaused ? 'paused' : 'recording';
+    }
     return this.mediaRecorder ? this.mediaRecorder.state : 'inactive';
   }
 
@@ -378,6 +734,8 @@ export class AudioRecorder {
    * Clean up all resources
    */
   dispose(): void {
+    // Abandoning the recording, so don't wait for the worklet's last samples
+    this.closeAudioContext();
     this.stopRecording();
     this.stopStream();
     this.mediaRecorder = null;
@@ -0,0 +1,55 @@
+import type { Scenario } from "~/components/ui/scenario-dropdown";
+import type { PracticeLanguage } from "~/lib/languages";
+
+export interface DialogueTurn {
+  role: 'learner' | 'partner';
+  text: string;
+}
+
+export interface PartnerReply {
+  reply: string;
+  isComplete: boolean; // True when the partner has wrapped up the conversation
+}
+
+/**
+ * Service for getting the AI role-play partner's next line from the server API
+ */
+export class ConversationService {
+  /**
+   * Ask the partner (receptionist, barista, coworker...) to reply to the dialogue so far.
+   * With an empty history the partner opens the conversation.
+   * @param language The practice language, which the partner speaks
+   */
+  async getPartnerReply(
+    scenario: Pick<Scenario, 'description' | 'prompt'>,
+    history: DialogueTurn[],
+    language: PracticeLanguage
+  ): Promise<PartnerReply> {
+    try {
+      const response = await fetch('/api/conversation', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          scenario: {
+            description: scenario.description,
+            prompt: scenario.prompt
+          },
+          history,
+          language
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Conversation API error (${response.status}): ${errorText}`);
+      }
+
+      return await response.json() as PartnerReply;
+    } catch (error) {
+      console.error('Error getting partner reply:', error);
+      throw new Error(`Failed to get partner reply: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { RevAiService } from "~/lib/services/rev-ai-service";
+import type {
+  TranscriptionEngine,
+  TranscriptionEngineId,
+  TranscriptionEngineOptions
+} from "~/lib/services/transcription-engine";
+import { WhisperService } from "~/lib/services/whisper-service";
+
+/**
+ * Create the speech-to-text engine selected by NEXT_PUBLIC_TRANSCRIPTION_ENGINE
+ */
+export function createTranscriptionEngine(
+  engine: TranscriptionEngineId,
+  options: TranscriptionEngineOptions
+): TranscriptionEngine {
+  switch (engine) {
+    case 'whisper':
+      return new WhisperService(options);
+    case 'revai':
+      return new RevAiService(options);
+  }
+}
@@ -1,11 +1,102 @@
 import type { Scenario } from "~/components/ui/scenario-dropdown";
 import type { SentimentSummary } from "~/lib/services/rev-ai-sentiment-service";
+import type { DialogueTurn } from "~/lib/services/conversation-service";
+import type { PronunciationReport } from "~/lib/analysis/pronunciation";
+import type { FluencyReport } from "~/lib/analysis/fluency";
+import type { TimeUsage } from "~/lib/timed-response-machine";
+import type { ReadingReport } from "~/lib/analysis/alignment";
+import type { TranscriptCorrection } from "~/lib/analysis/transcript-edits";
+import type { PracticeLanguage } from "~/lib/languages";
+
+// Rubric criteria, each scored from 1 (poor) to 5 (excellent)
+export const rubricCriteria = ['clarity', 'politeness', 'taskCompletion', 'grammar', 'vocabulary'] as const;
+export type RubricCriterion = (typeof rubricCriteria)[number];
+
+export const rubricLabels: Record<RubricCriterion, string> = {
+  clarity: 'Clarity',
+  politeness: 'Politeness',
+  taskCompletion: 'Task Completion',
+  grammar: 'Grammar',
+  vocabulary: 'Vocabulary',
+};
+
+export const MIN_RUBRIC_SCORE = 1;
+export const MAX_RUBRIC_SCORE = 5;
+
+export interface RubricScore {
+  score: number;
+  justification: string;
+}
+
+export type RubricScores = Record<RubricCriterion, RubricScore>;
 
 export interface FeedbackResponse {
   strengths: string[];
   improvements: string[];
   overallFeedback: string;
+  scores?: RubricScores; // Missing on attempts saved before rubric scoring
   sentiment?: SentimentSummary;
+  pronunciation?: PronunciationReport; // Measured in the browser, not generated by the model
+  fluency?: FluencyReport; // Measured in the browser, not generated by the model
+  timeUsage?: TimeUsage; // For timed scenarios, measured in the browser
+  reading?: ReadingReport; // For read-aloud practice, aligned in the browser
+}
+
+/**
+ * Measurements and context sent to the model along with the transcription
+ */
+export interface FeedbackContext {
+  language?: PracticeLanguage; // The language the user practiced, English when missing
+  dialogue?: DialogueTurn[]; // Evaluate a whole role-play conversation instead of a single answer
+  pronunciation?: PronunciationReport;
+  fluency?: FluencyReport;
+  timeUsage?: TimeUsage;
+  reading?: ReadingReport; // The user read the scenario's reference text aloud instead of answering
+  correction?: TranscriptCorrection; // The user corrected the recognizer's transcript before submitting
+}
+
+/**
+ * Error codes returned by /api/feedback:
+ * - BAD_REQUEST: the request was missing the scenario or transcription
+ * - PROVIDER_NOT_CONFIGURED: no API key for the language model
+ * - PROVIDER_ERROR: the language model API failed or could not be reached
+ * - INVALID_OUTPUT: the model kept returning feedback that doesn't match the schema, even after repair attempts
+ * - INTERNAL_ERROR: anything else went wrong on the server
+ */
+export const feedbackErrorCodes = [
+  'BAD_REQUEST',
+  'PROVIDER_NOT_CONFIGURED',
+  'PROVIDER_ERROR',
+  'INVALID_OUTPUT',
+  'INTERNAL_ERROR'
+] as const;
+export type FeedbackErrorCode = (typeof feedbackErrorCodes)[number];
+
+export interface FeedbackErrorResponse {
+  error: string;
+  code: FeedbackErrorCode;
+}
+
+/**
+ * Error thrown by GroqService when the feedback API reports a typed failure
+ */
+export class FeedbackError extends Error {
+  constructor(
+    public readonly code: FeedbackErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FeedbackError';
+  }
+}
+
+function isFeedbackErrorResponse(body: unknown): body is FeedbackErrorResponse {
+  return (
+    typeof body === 'object' &&
+    body !== null &&
+    typeof (body as FeedbackErrorResponse).error === 'string' &&
+    feedbackErrorCodes.includes((body as FeedbackErrorResponse).code)
+  );
 }
 
 /**
@@ -17,7 +108,8 @@ export class GroqService {
    */
   async analyzeSpeakingResponse(
     scenario: Scenario,
-    transcription: string
+    transcription: string,
+    context: FeedbackContext = {}
   ): Promise<FeedbackResponse> {
     try {
       const response = await fetch('/api/feedback', {
@@ -27,24 +119,33 @@ export class GroqService {
         },
         body: JSON.stringify({
           scenario,
-          transcription
+          transcription,
+          ...context
         }),
       });
       
       if (!response.ok) {
         const errorText = await response.text();
+        let errorBody: unknown = null;
+        try {
+          errorBody = JSON.parse(errorText);
+        } catch {
+          // Not JSON, e.g. a proxy error page
+        }
+
+        if (isFeedbackErrorResponse(errorBody)) {
+          throw new FeedbackError(errorBody.code, errorBody.error);
+        }
         throw new Error(`Feedback API error (${response.status}): ${errorText}`);
       }
       
-      const feedbackContent = await response.json() as FeedbackResponse;
-      
-      return {
-        strengths: feedbackContent.strengths || [],
-        improvements: feedbackContent.improvements || [],
-        overallFeedback: feedbackContent.overallFeedback || 'No feedback available'
-      };
+      // The server validates the feedback against its schema before responding
+      return await response.json() as FeedbackResponse;
     } catch (error) {
       console.error('Error analyzing speaking response:', error);
+      if (error instanceof FeedbackError) {
+        throw error;
+      }
       throw new Error(`Failed to analyze speaking response: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
@@ -1,3 +1,8 @@
+import { DEFAULT_PRACTICE_LANGUAGE, type PracticeLanguage } from "~/lib/languages";
+
+// Rev.ai's sentiment analysis only understands English
+export const SENTIMENT_LANGUAGES: readonly PracticeLanguage[] = ['en'];
+
 // Define types for the Rev.ai Sentiment Analysis API responses
 export interface SentimentMessage {
   content: string;
@@ -43,9 +48,10 @@ export class RevAiSentimentService {
   /**
    * Submit text for sentiment analysis
    * @param text The text to analyze
+   * @param language The language of the text, one of SENTIMENT_LANGUAGES
    * @returns A promise that resolves to the job ID
    */
-  async submitTranscriptionForAnalysis(text: string): Promise<string> {
+  async submitTranscriptionForAnalysis(text: string, language: PracticeLanguage = DEFAULT_PRACTICE_LANGUAGE): Promise<string> {
     try {
       console.log('Submitting text for sentiment analysis...');
       console.log('Text to analyze:', text);
@@ -57,7 +63,8 @@ export class RevAiSentimentService {
         },
         body: JSON.stringify({
           action: 'submit',
-          text: text
+          text: text,
+          language
         }),
       });
 
@@ -224,12 +231,13 @@ export class RevAiSentimentService {
   /**
    * Analyze the sentiment of a text and return a summary
    * @param text The text to analyze
+   * @param language The language of the text, one of SENTIMENT_LANGUAGES
    * @returns A promise that resolves to a sentiment summary
    */
-  async analyzeSentiment(text: string): Promise<SentimentSummary> {
+  async analyzeSentiment(text: string, language: PracticeLanguage = DEFAULT_PRACTICE_LANGUAGE): Promise<SentimentSummary> {
     try {
       // Submit the text for analysis
-      const jobId = await this.submitTranscriptionForAnalysis(text);
+      const jobId = await this.submitTranscriptionForAnalysis(text, language);
       console.log('Sentiment analysis job submitted with ID:', jobId);
       
       // Wait for the job to complete and get results
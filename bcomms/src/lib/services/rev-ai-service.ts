@@ -1,4 +1,18 @@
 // import { env } from "~/env";
+import {
+  CUSTOM_VOCABULARY_LANGUAGES,
+  buildRelayUrl,
+  requestTranscriptionSetup,
+  type TranscriptionEngine,
+  type TranscriptionEngineOptions,
+  type TranscriptionResult,
+  type TranscriptionSetup,
+  type TranscriptWord
+} from "~/lib/services/transcription-engine";
+import { RingBuffer } from "~/lib/ring-buffer";
+import { AUDIO_CHUNK_MS, RAW_PCM_CONTENT_TYPE } from "~/lib/services/audio-recorder";
+import { TranscriptAssembler } from "~/lib/transcript-assembler";
+import { DEFAULT_PRACTICE_LANGUAGE, type PracticeLanguage } from "~/lib/languages";
 
 // Define types for the Rev.ai API responses
 interface RevAiTranscriptElement {
@@ -17,116 +31,158 @@ interface RevAiTranscriptMessage {
   id?: string; // Job ID from the connected message
 }
 
-export interface TranscriptionResult {
-  text: string;
-  isFinal: boolean;
-  confidence?: number; // Average confidence score if available
+type RevAiSetup = Extract<TranscriptionSetup, { engine: 'revai' }>;
+
+// Reconnection backoff after the stream drops mid-recording: 0.5s, 1s, 2s, 4s, 8s
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+// Audio kept while reconnecting, about a minute of 250ms chunks; older audio is dropped first
+const MAX_BUFFERED_CHUNKS = 240;
+
+// How long to wait for Rev.ai's last final results after the end of the stream
+const FINAL_TRANSCRIPT_TIMEOUT_MS = 5000;
+
+// How long a stream ended for a pause may take to send its last results before it's closed anyway
+const PAUSE_FINAL_TIMEOUT_MS = 3000;
+
+// WebM's header runs up to the first Cluster element, which holds the audio
+const WEBM_CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+// Ogg Opus starts with two header pages (OpusHead and OpusTags) before the audio pages
+const OGG_CAPTURE_PATTERN = [0x4f, 0x67, 0x67, 0x53];
+const OGG_HEADER_PAGES = 2;
+
+interface BufferedChunk {
+  chunk: Blob;
+  startedAt: number; // Recording time (see recordingTime) when the chunk's audio began
 }
 
-interface RevAiServiceOptions {
-  onTranscriptionUpdate?: (result: TranscriptionResult) => void;
-  onTranscriptionComplete?: (finalResult: TranscriptionResult) => void;
-  onError?: (error: Error) => void;
-  onConnected?: () => void;
+function indexOfBytes(bytes: Uint8Array, pattern: number[], from: number): number {
+  for (let i = from; i <= bytes.length - pattern.length; i++) {
+    if (pattern.every((byte, j) => bytes[i + j] === byte)) {
+      return i;
+    }
+  }
+  return -1;
 }
 
-interface SetupResponse {
-  apiKey: string;
-  streamingUrl: string;
-  error?: string;
+/**
+ * Read the container header from the first chunk of a recording, without the audio that follows
+ * it. A new stream needs the header, but replaying the audio would repeat it in the transcript and
+ * shift every later timestamp.
+ */
+async function readContainerHeader(firstChunk: Blob, contentType: string): Promise<ArrayBuffer> {
+  const buffer = await firstChunk.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+
+  let headerEnd = -1;
+  if (contentType.startsWith('audio/webm')) {
+    headerEnd = indexOfBytes(bytes, WEBM_CLUSTER_ID, 0);
+  } else if (contentType.startsWith('audio/ogg')) {
+    // The page after the header pages is the first one with audio
+    headerEnd = indexOfBytes(bytes, OGG_CAPTURE_PATTERN, 0);
+    for (let page = 0; page < OGG_HEADER_PAGES && headerEnd !== -1; page++) {
+      headerEnd = indexOfBytes(bytes, OGG_CAPTURE_PATTERN, headerEnd + 1);
+    }
+  }
+
+  // A first chunk with no audio in it is all header
+  return headerEnd > 0 ? buffer.slice(0, headerEnd) : buffer;
+}
+
+/**
+ * Find where a new stream can pick up the container audio, after its header: the start of a WebM
+ * Cluster or of an Ogg page. Chunks split the audio anywhere, so the bytes before it can't be parsed.
+ * @returns -1 when the chunk has no such point
+ */
+function findResumePoint(bytes: Uint8Array, contentType: string): number {
+  return indexOfBytes(bytes, contentType.startsWith('audio/ogg') ? OGG_CAPTURE_PATTERN : WEBM_CLUSTER_ID, 0);
 }
 
 /**
  * Service for handling Rev.ai speech-to-text transcription
  */
-export class RevAiService {
+export class RevAiService implements TranscriptionEngine {
   private websocket: WebSocket | null = null;
-  private options: RevAiServiceOptions;
+  private options: TranscriptionEngineOptions;
   private isConnected = false;
-  private currentText = '';
-  private authToken = '';
+  private transcript = new TranscriptAssembler(); // Spans every stream opened for the recording
   private streamingUrl = '';
+  private contentType = '';
+  private language: PracticeLanguage = DEFAULT_PRACTICE_LANGUAGE;
+  private scenarioId?: number; // Its custom vocabulary is attached to every stream of the recording
   private jobId?: string;
+
+  // Reconnection state. A session spans every stream opened for one recording.
+  private session = 0; // Bumped on connect/disconnect so a reconnect for an old session gives up
+  private isStreaming = false; // A stream was established and the recording hasn't been finished or abandoned
+  private isFinishing = false;
+  private isReconnecting = false;
+  private isPaused = false;
+  private isEndingForPause = false; // EOS was sent for a pause, Rev.ai is sending its last results
+  private finishAfterPause = false;
+  private pauseTimer: ReturnType<typeof setTimeout> | null = null;
+  private pausedAt: number | null = null;
+  private pausedMs = 0; // Time spent paused, left out of the recording's timeline
+  private finishAfterReconnect = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsentChunks = new RingBuffer<BufferedChunk>(MAX_BUFFERED_CHUNKS);
+  private firstChunk: Blob | null = null;
+  private containerHeader: Promise<ArrayBuffer> | null = null; // Sent ahead of the audio on every new stream
+  private recordingStartedAt: number | null = null;
+  private lastCapturedAt: number | null = null;
+  private isNewStream = true; // Nothing has been sent on the current stream yet
+  private isResuming = false; // Container audio is dropped until a point the new stream can start from
+
+  private timeOffset = 0; // Seconds of the recording before the current stream started
+  private hasCompleted = false;
+  private finalTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Raw PCM gives the best recognition; the containers are for browsers without AudioWorklet
+  readonly supportedContentTypes = [RAW_PCM_CONTENT_TYPE, 'audio/webm', 'audio/ogg'] as const;
+
+  // Rev.ai streams all of our practice languages
+  readonly supportedLanguages = ['en', 'es', 'fr'] as const;
   
-  constructor(options: RevAiServiceOptions = {}) {
+  constructor(options: TranscriptionEngineOptions = {}) {
     this.options = options;
   }
 
   /**
    * Initialize the WebSocket connection to Rev.ai streaming API
    */
-  async connect(): Promise<void> {
+  async connect(contentType: string, language: PracticeLanguage, scenarioId?: number): Promise<void> {
     try {
       console.log('Starting Rev.ai setup...');
       
       // Reset the current text when starting a new connection
-      this.currentText = '';
+      this.resetSession();
+      const session = this.session;
+      this.language = language;
+      this.scenarioId = scenarioId;
       
-      // Get the API key and streaming URL from the server
-      const setupResponse = await fetch('/api/transcribe', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          action: 'setup'
-        }),
-      });
-
-      // Check for non-OK responses with more detailed error handling
-      if (!setupResponse.ok) {
-        const errorBody = await setupResponse.text();
-        console.error('API setup response not OK:', {
-          status: setupResponse.status,
-          statusText: setupResponse.statusText,
-          body: errorBody
-        });
-        throw new Error(`Failed to setup transcription: ${setupResponse.statusText}. Details: ${errorBody}`);
-      }
-
-      const responseData = await setupResponse.json() as SetupResponse;
+      // Get a relay ticket and streaming path from the server
+      const setup = await requestTranscriptionSetup(scenarioId);
       console.log('Rev.ai setup response received');
       
-      // Check for error in response data
-      if (responseData.error) {
-        throw new Error(`API returned error: ${responseData.error}`);
+      if (setup.engine !== 'revai') {
+        throw new Error(`The server is configured for the ${setup.engine} transcription engine`);
       }
+      const responseData: RevAiSetup = setup;
       
-      // Check for missing API key in response
-      if (!responseData.apiKey) {
-        console.error('API key missing in response:', responseData);
-        throw new Error('Rev.ai API key is not available. Please check your server configuration.');
+      // Check for missing ticket in response
+      if (!responseData.ticket) {
+        console.error('Relay ticket missing in response:', responseData);
+        throw new Error('Rev.ai streaming is not available. Please check your server configuration.');
       }
-
-      this.authToken = responseData.apiKey;
       
-      // First, try with webm format which works best with browsers
-      try {
-        this.streamingUrl = `${responseData.streamingUrl}?access_token=${this.authToken}&content_type=audio/webm&language=en&detailed_partials=true`;
-        console.log('Trying WebSocket connection to Rev.ai with audio/webm format');
-        await this.establishWebSocketConnection();
-        console.log('Successfully connected using audio/webm format');
-        return;
-      } catch (error) {
-        console.warn('Failed to connect with audio/webm format, trying alternate format:', error);
-      }
-      
-      // If webm fails, try with wav format
-      try {
-        this.streamingUrl = `${responseData.streamingUrl}?access_token=${this.authToken}&content_type=audio/x-wav&language=en&detailed_partials=true`;
-        console.log('Trying WebSocket connection to Rev.ai with audio/x-wav format');
-        await this.establishWebSocketConnection();
-        console.log('Successfully connected using audio/x-wav format');
-        return;
-      } catch (error) {
-        console.warn('Failed to connect with audio/x-wav format, trying raw format:', error);
-      }
-      
-      // As a last resort, try with the raw audio format
-      this.streamingUrl = `${responseData.streamingUrl}?access_token=${this.authToken}&content_type=audio/x-raw;layout=interleaved;rate=16000;format=S16LE;channels=1&language=en&detailed_partials=true`;
-      console.log('Trying WebSocket connection to Rev.ai with audio/x-raw format');
-      return this.establishWebSocketConnection();
-
+      // The recorder negotiated this format with us, so there's nothing to guess
+      this.useContentType(responseData, contentType);
+      console.log(`Opening WebSocket connection to Rev.ai with ${contentType}`);
+      await this.establishWebSocketConnection();
+      this.startStreaming(session);
     } catch (error) {
       console.error('Error setting up Rev.ai service:', error);
       if (this.options.onError) {
@@ -137,16 +193,41 @@ export class RevAiService {
   }
 
   /**
-   * Establish WebSocket connection with the obtained API key
+   * Build the URL of our streaming relay, which forwards the audio to Rev.ai
+   * using the server-side API key
+   */
+  private buildStreamingUrl(setup: RevAiSetup, contentType: string): string {
+    const vocabulary = setup.customVocabularyId && CUSTOM_VOCABULARY_LANGUAGES.includes(this.language)
+      ? `&custom_vocabulary_id=${encodeURIComponent(setup.customVocabularyId)}`
+      : '';
+    return buildRelayUrl(setup, `content_type=${contentType}&language=${this.language}&detailed_partials=true${vocabulary}`);
+  }
+
+  private useContentType(setup: RevAiSetup, contentType: string): void {
+    this.contentType = contentType;
+    this.streamingUrl = this.buildStreamingUrl(setup, contentType);
+  }
+
+  private startStreaming(session: number): void {
+    if (session === this.session) {
+      this.isStreaming = true;
+    }
+  }
+
+  /**
+   * Establish WebSocket connection through the streaming relay
    */
   private establishWebSocketConnection(): Promise<void> {
     return new Promise((resolve, reject) => {
+      let isEstablished = false;
+
       try {
         // Create WebSocket connection with all parameters in the URL
-        this.websocket = new WebSocket(this.streamingUrl);
+        const websocket = new WebSocket(this.streamingUrl);
+        this.websocket = websocket;
         
         // Connection established
-        this.websocket.onopen = () => {
+        websocket.onopen = () => {
           console.log('WebSocket connection established with Rev.ai');
           // Set connected flag immediately when socket is opened
           // This will be confirmed when we receive the 'connected' message with job ID
@@ -154,7 +235,7 @@ export class RevAiService {
         };
         
         // Handle messages from the Rev.ai service
-        this.websocket.onmessage = (event) => {
+        websocket.onmessage = (event) => {
           try {
             console.log(`WebSocket message received: ${typeof event.data === 'string' ? event.data.substring(0, 100) : 'binary data'}`);
             
@@ -183,21 +264,19 @@ export class RevAiService {
                 console.log('Rev.ai connection confirmed');
               }
               
-              if (this.options.onConnected) {
+              // Reconnecting is invisible to the app, it only hears about the first connection
+              if (this.options.onConnected && !this.isReconnecting) {
                 this.options.onConnected();
               }
+              isEstablished = true;
               resolve();
             } else if (message.type === 'partial' || message.type === 'final') {
               console.log(`Transcription ${message.type} received: ${JSON.stringify(message).substring(0, 200)}`);
               
+              // A final message only ends a segment; the transcript is complete once the stream ends
               const transcriptionResult = this.processTranscription(message);
-              console.log(`Processed transcription: ${transcriptionResult.text} (isFinal: ${transcriptionResult.isFinal})`);
-              
-              if (transcriptionResult.isFinal && this.options.onTranscriptionComplete) {
-                this.options.onTranscriptionComplete(transcriptionResult);
-              } else if (this.options.onTranscriptionUpdate) {
-                this.options.onTranscriptionUpdate(transcriptionResult);
-              }
+              console.log(`Processed transcription: ${transcriptionResult.text}`);
+              this.options.onTranscriptionUpdate?.(transcriptionResult);
             } else {
               console.log(`Unknown message type received: ${message.type}`);
             }
@@ -213,19 +292,41 @@ export class RevAiService {
         };
         
         // Handle WebSocket errors
-        this.websocket.onerror = (error) => {
+        websocket.onerror = (error) => {
           console.error('WebSocket error:', error);
+          if (this.websocket !== websocket) return;
           this.isConnected = false; // Ensure connected flag is reset
-          if (this.options.onError) {
-            this.options.onError(new Error('WebSocket connection error'));
+
+          // A dropped stream is reconnected when it closes, only report failures to connect
+          if (!isEstablished) {
+            if (this.options.onError && !this.isReconnecting) {
+              this.options.onError(new Error('WebSocket connection error'));
+            }
+            reject(error);
           }
-          reject(error);
         };
         
         // Handle WebSocket close
-        this.websocket.onclose = (event) => {
-          this.isConnected = false;
+        websocket.onclose = (event) => {
           console.log(`WebSocket closed: ${event.code} - ${event.reason}`);
+          if (this.websocket !== websocket) return;
+          this.isConnected = false;
+
+          if (!isEstablished) {
+            reject(new Error(`WebSocket closed before the stream was ready: ${event.code} ${event.reason}`));
+          } else if (this.isFinishing) {
+            // Rev.ai closes the stream once it has sent the final results for all the audio
+            this.complete();
+          } else if (this.isEndingForPause) {
+            this.finishPausedStream();
+          } else if (this.isStreaming) {
+            // While paused there's no audio to lose, resume opens a new stream
+            if (this.isPaused) {
+              this.carryTranscript();
+            } else {
+              this.handleUnexpectedClose();
+            }
+          }
         };
         
       } catch (error) {
@@ -242,24 +343,75 @@ export class RevAiService {
    * Send audio data to Rev.ai for transcription
    */
   sendAudioChunk(audioChunk: Blob): void {
-    if (!this.isConnected || !this.websocket) {
-      throw new Error('Not connected to Rev.ai. Call connect() first.');
-    }
-
     // Only send chunks with actual data
     if (audioChunk.size === 0) {
       console.warn('Ignoring empty audio chunk');
       return;
     }
 
+    // A chunk arrives once its audio is recorded, so it began when the one before it arrived
+    const capturedAt = this.recordingTime();
+    const bufferedChunk: BufferedChunk = {
+      chunk: audioChunk,
+      startedAt: this.lastCapturedAt ?? capturedAt - AUDIO_CHUNK_MS,
+    };
+    this.lastCapturedAt = capturedAt;
+    if (!this.firstChunk) {
+      this.firstChunk = audioChunk;
+      // Raw audio has no header and can be replayed as is
+      if (!this.contentType.startsWith('audio/x-raw')) {
+        this.containerHeader = readContainerHeader(audioChunk, this.contentType);
+      }
+    }
+    this.recordingStartedAt ??= bufferedChunk.startedAt;
+
+    // Keep the audio while the stream is down or ending, it's replayed once we're reconnected
+    if (this.isReconnecting || this.isPaused || this.isEndingForPause) {
+      this.unsentChunks.push(bufferedChunk);
+      return;
+    }
+
+    if (!this.isConnected || !this.websocket) {
+      throw new Error('Not connected to Rev.ai. Call connect() first.');
+    }
+
     // Log the audio format for debugging - ensure type is a string
     console.log(`Sending audio chunk: type=${String(audioChunk.type)}, size=${audioChunk.size} bytes`);
-    
+    this.sendBufferedChunk(bufferedChunk);
+  }
+
+  /**
+   * Send a chunk over the current stream, or keep it for later if the stream just dropped
+   */
+  private sendBufferedChunk(bufferedChunk: BufferedChunk): void {
+    const session = this.session;
+
     // Rev.ai expects binary audio data
-    audioChunk.arrayBuffer().then(buffer => {
-      if (this.websocket && this.isConnected) {
+    bufferedChunk.chunk.arrayBuffer().then(buffer => {
+      if (session !== this.session) return;
+
+      if (this.websocket?.readyState === WebSocket.OPEN && this.isConnected) {
+        let audio = buffer;
+        if (this.isResuming) {
+          const resumePoint = findResumePoint(new Uint8Array(buffer), this.contentType);
+          if (resumePoint === -1) {
+            console.log('Dropping audio chunk, waiting for a point the new stream can start from');
+            return;
+          }
+          audio = buffer.slice(resumePoint);
+          this.isResuming = false;
+        }
+
+        // Rev.ai's timestamps count from the first audio of the stream
+        if (this.isNewStream) {
+          this.isNewStream = false;
+          this.timeOffset = (bufferedChunk.startedAt - (this.recordingStartedAt ?? bufferedChunk.startedAt)) / 1000;
+        }
+
         // Send raw binary data as required by Rev.ai
-        this.websocket.send(buffer);
+        this.websocket.send(audio);
+      } else if (this.isStreaming) {
+        this.unsentChunks.push(bufferedChunk);
       }
     }).catch(error => {
       console.error('Error processing audio chunk:', error);
@@ -270,97 +422,251 @@ export class RevAiService {
   }
 
   /**
-   * Process transcription response from Rev.ai
+   * Extract the recognized words with their timing and confidence, skipping punctuation
    */
-  private processTranscription(message: RevAiTranscriptMessage): TranscriptionResult {
-    let transcriptText = '';
-    let confidenceSum = 0;
-    let confidenceCount = 0;
-
-    // Extract text from the elements
-    if (message.elements) {
-      message.elements.forEach(element => {
-        transcriptText += element.value;
-        
-        // Calculate average confidence
-        if (element.type === 'text' && element.confidence !== undefined) {
-          confidenceSum += element.confidence;
-          confidenceCount++;
-        }
-      });
+  private extractWords(message: RevAiTranscriptMessage): TranscriptWord[] {
+    return (message.elements ?? [])
+      .filter(element => element.type === 'text' && element.value.trim().length > 0)
+      .map(element => ({
+        text: element.value.trim(),
+        // Each stream's timestamps start at zero, shift them onto the whole recording
+        ts: element.ts !== undefined ? element.ts + this.timeOffset : undefined,
+        endTs: element.end_ts !== undefined ? element.end_ts + this.timeOffset : undefined,
+        confidence: element.confidence
+      }));
+  }
+
+  /**
+   * Milliseconds of recording time, which stands still while paused
+   */
+  private recordingTime(): number {
+    return (this.pausedAt ?? performance.now()) - this.pausedMs;
+  }
+
+  /**
+   * The stream dropped while recording: keep what was transcribed and start reconnecting
+   */
+  private handleUnexpectedClose(): void {
+    console.warn('Rev.ai stream dropped mid-recording, reconnecting...');
+    this.carryTranscript();
+    this.isReconnecting = true;
+    this.reconnectAttempts = 0;
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Keep the transcript so far, including the partial Rev.ai won't finalize now that the
+   * stream has ended; the next stream's results are appended to it
+   */
+  private carryTranscript(): void {
+    this.transcript.commitPending();
+  }
+
+  /**
+   * Rev.ai ends streams that receive no audio, so a pause ends the current stream cleanly
+   * and resume opens a new one, the same way as after a dropped connection. The stream is kept
+   * open until Rev.ai has sent the final results for the words spoken just before the pause.
+   */
+  pause(): void {
+    if (!this.isStreaming || this.isPaused) {
+      return;
     }
+    console.log('Recording paused, ending the current Rev.ai stream');
+    this.isPaused = true;
+    this.pausedAt = performance.now();
 
-    console.log(`Processing ${message.type} transcript: "${transcriptText}"`);
-    
-    if (message.type === 'final') {
-      // Final transcripts from Rev.ai should replace our current text if they contain
-      // significant content, as they represent completed processing
-      if (transcriptText.trim().length > 0) {
-        // If the final text is a subset of what we've accumulated, keep our accumulated text
-        // This handles cases where Rev.ai might send a partial final result
-        if (this.currentText.includes(transcriptText) && this.currentText.length > transcriptText.length) {
-          console.log(`Final transcript "${transcriptText}" is contained in current text, keeping current`);
-        } else {
-          // Otherwise, use the final transcript
-          this.currentText = transcriptText;
-          console.log(`Updated with final transcript: "${this.currentText}"`);
-        }
-      }
-      
-      // After processing a final transcript, ensure we trigger the onTranscriptionComplete callback
-      if (this.options.onTranscriptionComplete) {
-        console.log('Triggering onTranscriptionComplete with final transcript');
-        const averageConfidence = confidenceCount > 0 ? confidenceSum / confidenceCount : undefined;
-        this.options.onTranscriptionComplete({
-          text: this.currentText,
-          isFinal: true,
-          confidence: averageConfidence
-        });
-      }
-    } else if (message.type === 'partial' && transcriptText.trim().length > 0) {
-      // Smart handling of partial transcripts
-      const cleanText = transcriptText.trim();
-      
-      if (this.currentText.length === 0) {
-        // First partial, just use it
-        this.currentText = cleanText;
-      } else {
-        // Check if this partial is new content or overlaps with existing content
-        // Try to find the last few words of current text in the new partial
-        const words = this.currentText.split(' ');
-        const lastWords = words.slice(-3).join(' '); // Use last 3 words for overlap detection
-        
-        if (cleanText.includes(lastWords)) {
-          // There's overlap, this partial likely continues our current text
-          // Replace the overlapping part and append the rest
-          const overlapIndex = cleanText.indexOf(lastWords);
-          const newContent = cleanText.substring(overlapIndex + lastWords.length);
-          
-          if (newContent.trim().length > 0) {
-            this.currentText += newContent;
-            console.log(`Appended new content with overlap: "${newContent}"`);
-          }
-        } else if (!this.currentText.includes(cleanText)) {
-          // No overlap found and not a duplicate, append as new content
-          this.currentText += ' ' + cleanText;
-          console.log(`Appended entirely new content: "${cleanText}"`);
-        } else {
-          // This partial is already in our text, ignore it
-          console.log('Skipping duplicate partial');
-        }
+    // A reconnect in progress carries on and waits for the recording to resume
+    const websocket = this.websocket;
+    if (this.isReconnecting || !websocket) {
+      return;
+    }
+
+    if (websocket.readyState !== WebSocket.OPEN) {
+      this.carryTranscript();
+      this.websocket = null;
+      this.isConnected = false;
+      return;
+    }
+
+    // Rev.ai closes the stream once it has sent the last results, don't wait forever if it doesn't
+    this.isEndingForPause = true;
+    websocket.send('EOS');
+    this.pauseTimer = setTimeout(() => {
+      this.pauseTimer = null;
+      console.log('Closing the paused Rev.ai stream after timeout');
+      websocket.close(1000, 'Recording paused');
+    }, PAUSE_FINAL_TIMEOUT_MS);
+  }
+
+  /**
+   * The stream ended for a pause has closed: keep its transcript, and carry on with whatever
+   * happened in the meantime
+   */
+  private finishPausedStream(): void {
+    this.isEndingForPause = false;
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+      this.pauseTimer = null;
+    }
+    // Keep the latest partial too, in case Rev.ai never finalized it
+    this.carryTranscript();
+
+    if (this.finishAfterPause) {
+      this.finishAfterPause = false;
+      this.finishTranscription();
+    } else if (!this.isPaused) {
+      // Resumed while the last results were still arriving
+      this.isReconnecting = true;
+      this.reconnectAttempts = 0;
+      void this.reconnect(this.session);
+    }
+  }
+
+  resume(): void {
+    if (!this.isPaused) {
+      return;
+    }
+    console.log('Recording resumed, opening a new Rev.ai stream');
+    this.isPaused = false;
+    if (this.pausedAt !== null) {
+      this.pausedMs += performance.now() - this.pausedAt;
+      this.pausedAt = null;
+    }
+
+    if (this.isStreaming && !this.isConnected && !this.isReconnecting) {
+      this.isReconnecting = true;
+      this.reconnectAttempts = 0;
+      void this.reconnect(this.session);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.giveUpReconnecting();
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    console.log(`Reconnecting to Rev.ai in ${delay}ms (attempt ${this.reconnectAttempts} of ${MAX_RECONNECT_ATTEMPTS})`);
+
+    const session = this.session;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.reconnect(session);
+    }, delay);
+  }
+
+  /**
+   * Open a new stream for the same recording and replay the audio recorded in the meantime
+   */
+  private async reconnect(session: number): Promise<void> {
+    let header: ArrayBuffer | null = null;
+    try {
+      // Relay tickets are short-lived and single-use, so get a fresh one
+      const setup = await requestTranscriptionSetup(this.scenarioId);
+      if (session !== this.session) return;
+      if (setup.engine !== 'revai') {
+        throw new Error(`The server is configured for the ${setup.engine} transcription engine`);
       }
+
+      this.streamingUrl = this.buildStreamingUrl(setup, this.contentType);
+      await this.establishWebSocketConnection();
+      if (session !== this.session) return;
+
+      header = await this.containerHeader;
+      if (session !== this.session) return;
+    } catch (error) {
+      if (session !== this.session) return;
+      console.warn('Reconnection attempt failed:', error);
+      this.scheduleReconnect();
+      return;
     }
 
-    // Clean up any double spaces that might have been introduced
-    this.currentText = this.currentText.replace(/\s+/g, ' ').trim();
-    
-    const averageConfidence = confidenceCount > 0 ? confidenceSum / confidenceCount : undefined;
+    console.log(`Reconnected to Rev.ai, replaying ${this.unsentChunks.size} buffered chunks`);
+    if (this.unsentChunks.droppedCount > 0) {
+      console.warn(`${this.unsentChunks.droppedCount} audio chunks were dropped while reconnecting`);
+    }
+    this.isReconnecting = false;
+
+    // Container formats only carry their header in the first chunk, so a new stream needs it again.
+    // It's sent on its own, ahead of the audio, unless the first chunk is about to be replayed, and
+    // the audio picks up at the next Cluster or page. The time offset follows the first audio sent.
+    this.isNewStream = true;
+    const chunks = this.unsentChunks.drain();
+    if (header && chunks[0]?.chunk !== this.firstChunk) {
+      this.websocket?.send(header);
+      this.isResuming = true;
+    }
+    chunks.forEach(chunk => this.sendBufferedChunk(chunk));
+
+    if (this.finishAfterReconnect) {
+      this.finishAfterReconnect = false;
+      this.finishTranscription();
+    }
+  }
+
+  /**
+   * Stop reconnecting and report the transcript so far
+   */
+  private giveUpReconnecting(): void {
+    console.error('Could not reconnect to Rev.ai, giving up');
+    this.isReconnecting = false;
+    this.isStreaming = false;
+    this.finishAfterReconnect = false;
+    this.unsentChunks.clear();
+
+    if (this.options.onError) {
+      this.options.onError(new Error('Lost the connection to Rev.ai. Your answer was transcribed up to the point the connection dropped.'));
+    }
+  }
 
-    return {
-      text: this.currentText,
-      isFinal: message.type === 'final',
-      confidence: averageConfidence
+  /**
+   * Process transcription response from Rev.ai. Each final message covers a new stretch of
+   * audio, and each partial is the current guess for the audio since the last final.
+   */
+  private processTranscription(message: RevAiTranscriptMessage): TranscriptionResult {
+    const elements = message.elements ?? [];
+    const segment = {
+      text: elements.map(element => element.value).join('').replace(/\s+/g, ' ').trim(),
+      words: this.extractWords(message)
     };
+
+    if (message.type === 'final') {
+      this.transcript.commit(segment);
+    } else {
+      this.transcript.setPartial(segment);
+    }
+
+    const confidences = elements
+      .filter(element => element.type === 'text' && element.confidence !== undefined)
+      .map(element => element.confidence ?? 0);
+    const averageConfidence = confidences.length > 0
+      ? confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length
+      : undefined;
+
+    return this.transcript.toResult(false, averageConfidence);
+  }
+
+  /**
+   * Report the final transcript, once per recording
+   */
+  private complete(): void {
+    if (this.hasCompleted) {
+      return;
+    }
+    this.hasCompleted = true;
+    if (this.finalTimer) {
+      clearTimeout(this.finalTimer);
+      this.finalTimer = null;
+    }
+
+    // A partial that never got its final is still the best guess for the end of the recording
+    this.transcript.commitPending();
+    console.log('Rev.ai transcription complete:', this.transcript.text);
+    if (this.transcript.text) {
+      this.options.onTranscriptionComplete?.(this.transcript.toResult(true));
+    }
   }
 
   /**
@@ -455,8 +761,8 @@ export class RevAiService {
       }
       
       this.isConnected = false;
-      this.currentText = '';
       this.jobId = undefined;
+      this.resetSession();
       console.log('Disconnected from Rev.ai');
     } catch (error) {
       console.error('Error disconnecting from Rev.ai:', error);
@@ -467,10 +773,51 @@ export class RevAiService {
   }
 
   /**
-   * Check if connected to Rev.ai
+   * Forget everything about the current recording, including a pending reconnect
+   */
+  private resetSession(): void {
+    this.session++;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.isStreaming = false;
+    this.isFinishing = false;
+    this.isReconnecting = false;
+    this.isPaused = false;
+    this.isEndingForPause = false;
+    this.finishAfterPause = false;
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+      this.pauseTimer = null;
+    }
+    this.pausedAt = null;
+    this.pausedMs = 0;
+    this.finishAfterReconnect = false;
+    this.reconnectAttempts = 0;
+    this.unsentChunks.clear();
+    this.firstChunk = null;
+    this.containerHeader = null;
+    this.recordingStartedAt = null;
+    this.lastCapturedAt = null;
+    this.isNewStream = true;
+    this.isResuming = false;
+
+    if (this.finalTimer) {
+      clearTimeout(this.finalTimer);
+      this.finalTimer = null;
+    }
+    this.hasCompleted = false;
+    this.transcript.reset();
+    this.timeOffset = 0;
+  }
+
+  /**
+   * Check if connected to Rev.ai. While reconnecting or paused the service still accepts audio, it's buffered.
    */
   isReady(): boolean {
-    return this.isConnected;
+    return this.isConnected || this.isReconnecting || this.isPaused;
   }
 
   /**
@@ -478,53 +825,52 @@ export class RevAiService {
    * This maintains backward compatibility with code that uses the previous API
    */
   finishTranscription(): void {
+    // The paused stream's last results come first, finish once it has closed
+    if (this.isEndingForPause) {
+      console.log('Finalization deferred until the paused stream has closed');
+      this.finishAfterPause = true;
+      return;
+    }
+
+    // Stopped while paused: the last audio from before the pause may still have to be sent
+    if (this.isPaused && !this.isConnected && !this.isReconnecting) {
+      this.isPaused = false;
+      if (this.unsentChunks.size > 0) {
+        this.isReconnecting = true;
+        this.reconnectAttempts = 0;
+        void this.reconnect(this.session);
+      }
+    }
+
+    // The buffered audio has to reach Rev.ai first, finish once the stream is back
+    if (this.isReconnecting) {
+      console.log('Finalization deferred until reconnected');
+      this.finishAfterReconnect = true;
+      return;
+    }
+
     // Check if we're actually connected before trying to end the stream
     if (!this.isConnected || !this.websocket) {
       console.log('Skipping finalization - not connected');
-      
-      // Even when not connected, if we have some text, report it as final
-      if (this.options.onTranscriptionComplete && this.currentText) {
-        console.log('Reporting current text as final even though not connected:', this.currentText);
-        this.options.onTranscriptionComplete({
-          text: this.currentText,
-          isFinal: true
-        });
-      }
-      
+      this.complete();
       return;
     }
 
     console.log('Finalizing transcription...');
+    this.isFinishing = true;
     
-    // Try to end the stream gracefully - only if we're actually connected
-    if (this.isConnected && this.websocket) {
-      this.sendEndOfStream().catch(error => {
-        console.warn('Non-critical error in finishTranscription:', error);
-        
-        // Even if sendEndOfStream fails, we still want to report the current 
-        // transcription as a final result
-        if (this.options.onTranscriptionComplete && this.currentText) {
-          console.log('Reporting current text as final after error:', this.currentText);
-          this.options.onTranscriptionComplete({
-            text: this.currentText,
-            isFinal: true
-          });
-        }
-      });
-    }
+    // Rev.ai sends the last final results and closes the stream, which completes the transcript
+    this.sendEndOfStream().catch(error => {
+      console.warn('Non-critical error in finishTranscription:', error);
+      this.complete();
+    });
       
-    // Wait a moment to allow any pending final messages to be processed
-    setTimeout(() => {
-      // Report current text as final if we haven't already received a final message
-      if (this.options.onTranscriptionComplete && this.currentText) {
-        console.log('Reporting current text as final after timeout:', this.currentText);
-        this.options.onTranscriptionComplete({
-          text: this.currentText,
-          isFinal: true
-        });
-      }
+    // Don't wait forever if the stream is never closed
+    this.finalTimer = setTimeout(() => {
+      this.finalTimer = null;
+      console.log('Reporting current text as final after timeout');
+      this.complete();
       
-      // Also try to close the WebSocket gracefully
       try {
         if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
           this.websocket.close(1000, "Client finished");
@@ -533,6 +879,6 @@ export class RevAiService {
       } catch (error) {
         console.warn('Error closing WebSocket:', error);
       }
-    }, 1000); // Wait 1 second before forcing completion
+    }, FINAL_TRANSCRIPT_TIMEOUT_MS);
   }
 }
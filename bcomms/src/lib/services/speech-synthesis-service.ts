@@ -0,0 +1,67 @@
+/**
+ * Thin wrapper around the browser's Web Speech synthesis API, used to speak the
+ * role-play partner's replies aloud
+ */
+export class SpeechSynthesisService {
+  private utterance: SpeechSynthesisUtterance | null = null;
+
+  /**
+   * Check whether the browser can speak text aloud
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  /**
+   * Check whether the browser has a voice for a language, e.g. 'fr-FR'. Browsers load their
+   * voices lazily, so an empty voice list counts as a yes.
+   */
+  static hasVoiceFor(lang: string): boolean {
+    if (!SpeechSynthesisService.isSupported()) {
+      return false;
+    }
+
+    const voices = window.speechSynthesis.getVoices();
+    const primaryLanguage = lang.split('-')[0]?.toLowerCase();
+    return voices.length === 0 || voices.some(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === primaryLanguage);
+  }
+
+  /**
+   * Speak a line of text
+   * @returns A promise that resolves when speaking has finished, failed or was cancelled
+   */
+  speak(text: string, lang = 'en-US'): Promise<void> {
+    if (!SpeechSynthesisService.isSupported()) {
+      return Promise.resolve();
+    }
+
+    this.cancel();
+
+    return new Promise(resolve => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.rate = 0.95; // Slightly slower than default so learners can follow
+      utterance.onend = () => resolve();
+      utterance.onerror = (event) => {
+        // 'interrupted' and 'canceled' are expected when we cancel speech ourselves
+        if (event.error !== 'interrupted' && event.error !== 'canceled') {
+          console.warn('Speech synthesis error:', event.error);
+        }
+        resolve();
+      };
+
+      this.utterance = utterance;
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+
+  /**
+   * Stop speaking immediately
+   */
+  cancel(): void {
+    if (this.utterance && SpeechSynthesisService.isSupported()) {
+      window.speechSynthesis.cancel();
+    }
+    this.utterance = null;
+  }
+}
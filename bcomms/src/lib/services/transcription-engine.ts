@@ -0,0 +1,137 @@
+import type { PracticeLanguage } from '~/lib/languages';
+
+// Recognizer confidence below which a word is flagged as hard to understand
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export interface TranscriptWord {
+  text: string;
+  ts?: number; // Start time in seconds from the beginning of the recording
+  endTs?: number;
+  confidence?: number; // 0-1, from the recognizer
+}
+
+export interface TranscriptionResult {
+  text: string;
+  isFinal: boolean;
+  committedText?: string; // The part of the text the engine won't revise, when it reports one
+  pendingText?: string; // The tail of the text that may still change as more audio arrives
+  confidence?: number; // Average confidence score if available
+  words?: TranscriptWord[]; // Recognized words in order, when the engine reports them
+}
+
+/**
+ * Check whether the recognizer struggled with a word, which often points to a mispronunciation
+ */
+export function isLowConfidence(word: TranscriptWord): boolean {
+  return word.confidence !== undefined && word.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+export interface TranscriptionEngineOptions {
+  onTranscriptionUpdate?: (result: TranscriptionResult) => void;
+  onTranscriptionComplete?: (finalResult: TranscriptionResult) => void;
+  onError?: (error: Error) => void;
+  onConnected?: () => void;
+}
+
+/**
+ * A speech-to-text backend that turns recorded audio chunks into a live transcript
+ */
+export interface TranscriptionEngine {
+  /**
+   * Audio content types the engine can transcribe, most preferred first
+   */
+  readonly supportedContentTypes: readonly string[];
+  /**
+   * Practice languages the engine can transcribe
+   */
+  readonly supportedLanguages: readonly PracticeLanguage[];
+  /**
+   * Prepare a new transcription session, e.g. open the streaming connection
+   * @param contentType The format the audio chunks will be sent in, one of supportedContentTypes
+   * @param language The language spoken, one of supportedLanguages
+   * @param scenarioId The scenario being practiced, for engines that tune recognition to its vocabulary
+   */
+  connect(contentType: string, language: PracticeLanguage, scenarioId?: number): Promise<void>;
+  /**
+   * Send the next chunk of recorded audio
+   */
+  sendAudioChunk(audioChunk: Blob): void;
+  /**
+   * Signal that recording has stopped; the final transcript is reported through onTranscriptionComplete
+   */
+  finishTranscription(): void;
+  /**
+   * Signal that recording was paused; no audio arrives until resume
+   */
+  pause(): void;
+  /**
+   * Signal that recording continues after a pause
+   */
+  resume(): void;
+  /**
+   * Abandon the session and release its resources
+   */
+  disconnect(): void;
+  /**
+   * Check whether the engine is ready to receive audio
+   */
+  isReady(): boolean;
+}
+
+export const transcriptionEngineIds = ['revai', 'whisper'] as const;
+export type TranscriptionEngineId = (typeof transcriptionEngineIds)[number];
+
+// Languages Rev.ai accepts a custom vocabulary for; other languages are transcribed without one
+export const CUSTOM_VOCABULARY_LANGUAGES: readonly PracticeLanguage[] = ['en', 'es'];
+
+interface StreamingSetup {
+  streamingUrl: string; // Path of our server-side relay, not the engine itself
+  ticket: string; // Short-lived ticket that authorizes one relay connection
+  expiresAt: number;
+}
+
+/**
+ * Response of the `setup` action of /api/transcribe
+ */
+export type TranscriptionSetup =
+  | ({ engine: 'revai'; customVocabularyId?: string } & StreamingSetup) // The scenario's vocabulary, once Rev.ai has built it
+  | ({ engine: 'whisper'; mode: 'websocket' } & StreamingSetup)
+  | { engine: 'whisper'; mode: 'http'; uploadUrl: string };
+
+/**
+ * Ask the server how to reach the configured transcription engine
+ * @param scenarioId The scenario being practiced, to attach its custom vocabulary
+ */
+export async function requestTranscriptionSetup(scenarioId?: number): Promise<TranscriptionSetup> {
+  const setupResponse = await fetch('/api/transcribe', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      action: 'setup',
+      scenarioId
+    }),
+  });
+
+  // Check for non-OK responses with more detailed error handling
+  if (!setupResponse.ok) {
+    const errorBody = await setupResponse.text();
+    console.error('API setup response not OK:', {
+      status: setupResponse.status,
+      statusText: setupResponse.statusText,
+      body: errorBody
+    });
+    throw new Error(`Failed to setup transcription: ${setupResponse.statusText}. Details: ${errorBody}`);
+  }
+
+  return await setupResponse.json() as TranscriptionSetup;
+}
+
+/**
+ * Build the URL of our streaming relay, which forwards the audio to the engine
+ */
+export function buildRelayUrl(setup: StreamingSetup, params: string): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${setup.streamingUrl}?ticket=${encodeURIComponent(setup.ticket)}&${params}`;
+}
@@ -0,0 +1,153 @@
+import type { PracticeLanguage } from "~/lib/languages";
+import type { TranscriptionResult, TranscriptWord } from "~/lib/services/transcription-engine";
+
+// Formats learners can upload, e.g. from a phone's voice recorder app
+export const UPLOAD_AUDIO_EXTENSIONS = ['.wav', '.mp3', '.m4a', '.webm'] as const;
+const UPLOAD_AUDIO_TYPES = [
+  'audio/wav',
+  'audio/x-wav',
+  'audio/wave',
+  'audio/mpeg',
+  'audio/mp3',
+  'audio/mp4',
+  'audio/x-m4a',
+  'audio/m4a',
+  'audio/webm',
+  'video/webm', // Some browsers report WebM audio as video
+];
+
+// How often to ask whether the job has finished, and when to give up
+const JOB_POLL_INTERVAL_MS = 3000;
+const JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Status checks that fail on the network or the server are retried, backing off each time
+const MAX_POLL_RETRIES = 3;
+
+/**
+ * Response of the `jobStatus` action of /api/transcribe
+ */
+export type TranscriptionJobStatus =
+  | { status: 'in_progress' }
+  | { status: 'completed'; text: string; words: TranscriptWord[] }
+  | { status: 'failed'; error: string };
+
+/**
+ * Check an uploaded file by its extension, or its type when the name has none
+ */
+export function isSupportedUpload(file: { name: string; type: string }): boolean {
+  const name = file.name.toLowerCase();
+  if (UPLOAD_AUDIO_EXTENSIONS.some(extension => name.endsWith(extension))) {
+    return true;
+  }
+  return !name.includes('.') && UPLOAD_AUDIO_TYPES.includes(file.type.split(';')[0] ?? '');
+}
+
+async function readError(response: Response): Promise<string> {
+  try {
+    const { error } = await response.json() as { error?: string };
+    return error ?? response.statusText;
+  } catch {
+    return response.statusText;
+  }
+}
+
+async function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    throw new Error('Transcription was cancelled');
+  }
+
+  let cancel: () => void = () => undefined;
+  const onAbort = () => cancel();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    await new Promise<void>((resolve, reject) => {
+      cancel = () => reject(new Error('Transcription was cancelled'));
+      timer = setTimeout(resolve, ms);
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Transcribe a recording made earlier, e.g. offline on a phone. The file is uploaded to an
+ * asynchronous transcription job on the server, which is polled until it finishes.
+ * @param scenarioId The scenario being practiced, to use its custom vocabulary
+ * @param signal Aborts waiting for the job, e.g. when the learner starts over
+ */
+export async function transcribeUploadedRecording(
+  file: File,
+  language: PracticeLanguage,
+  { scenarioId, signal }: { scenarioId?: number; signal?: AbortSignal } = {}
+): Promise<TranscriptionResult> {
+  const formData = new FormData();
+  formData.append('action', 'submitJob');
+  formData.append('audio', file, file.name);
+  formData.append('language', language);
+  if (scenarioId !== undefined) {
+    formData.append('scenarioId', String(scenarioId));
+  }
+
+  const submitResponse = await fetch('/api/transcribe', {
+    method: 'POST',
+    body: formData,
+    signal,
+  });
+  if (!submitResponse.ok) {
+    throw new Error(`Failed to upload recording: ${await readError(submitResponse)}`);
+  }
+  const { jobId } = await submitResponse.json() as { jobId: string };
+  console.log(`Transcription job ${jobId} submitted`);
+
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  let failedPolls = 0;
+  while (Date.now() < deadline) {
+    await wait(JOB_POLL_INTERVAL_MS * 2 ** failedPolls, signal);
+
+    let statusResponse: Response | null = null;
+    try {
+      statusResponse = await fetch('/api/transcribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'jobStatus',
+          jobId
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.warn(`Checking transcription job ${jobId} failed:`, error);
+    }
+
+    // Network and server errors may pass, so they're retried; anything else won't
+    if (!statusResponse || statusResponse.status >= 500) {
+      if (failedPolls >= MAX_POLL_RETRIES) {
+        const reason = statusResponse ? await readError(statusResponse) : 'the server could not be reached';
+        throw new Error(`Failed to check transcription: ${reason}`);
+      }
+      failedPolls++;
+      continue;
+    }
+    if (!statusResponse.ok) {
+      throw new Error(`Failed to check transcription: ${await readError(statusResponse)}`);
+    }
+    failedPolls = 0;
+
+    const job = await statusResponse.json() as TranscriptionJobStatus;
+    if (job.status === 'completed') {
+      return { text: job.text, words: job.words, isFinal: true };
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error);
+    }
+  }
+
+  throw new Error('Transcription is taking too long. Please try uploading the recording again.');
+}
@@ -0,0 +1,413 @@
+import {
+  buildRelayUrl,
+  requestTranscriptionSetup,
+  type TranscriptionEngine,
+  type TranscriptionEngineOptions,
+  type TranscriptionSetup,
+  type TranscriptWord
+} from "~/lib/services/transcription-engine";
+import { DEFAULT_PRACTICE_LANGUAGE, type PracticeLanguage } from "~/lib/languages";
+
+type WhisperSetup = Extract<TranscriptionSetup, { engine: 'whisper' }>;
+
+// How often the recording so far is re-transcribed to show a live transcript in HTTP mode
+const PARTIAL_INTERVAL_MS = 3000;
+
+// How long to wait for a streaming server's final transcript after the end of the audio
+const FINAL_TIMEOUT_MS = 5000;
+
+// Word timestamps as reported by Whisper servers
+export interface WhisperWord {
+  word: string;
+  start?: number;
+  end?: number;
+  probability?: number;
+}
+
+// Response of /api/transcribe/whisper
+export interface WhisperTranscript {
+  text: string;
+  words: TranscriptWord[];
+}
+
+// Messages from a streaming Whisper server. Each one carries the transcript of the audio so far.
+interface WhisperStreamMessage {
+  text?: string;
+  type?: 'partial' | 'final';
+  is_final?: boolean;
+  words?: WhisperWord[];
+}
+
+/**
+ * Convert Whisper's word timestamps into transcript words; the probability serves as confidence
+ */
+export function toTranscriptWords(words: WhisperWord[]): TranscriptWord[] {
+  return words
+    .filter(word => word.word.trim().length > 0)
+    .map(word => ({
+      text: word.word.trim(),
+      ts: word.start,
+      endTs: word.end,
+      confidence: word.probability
+    }));
+}
+
+/**
+ * Pick a file extension the Whisper server's decoder will recognize
+ */
+function getFileExtension(mimeType: string): string {
+  if (mimeType.includes('wav')) return 'wav';
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'm4a';
+  return 'webm';
+}
+
+/**
+ * Service for transcribing speech with a local whisper.cpp or faster-whisper server.
+ *
+ * Over HTTP the recording so far is uploaded every few seconds for a live transcript and once
+ * more when recording stops. Over WebSocket the audio is streamed through our relay instead.
+ */
+export class WhisperService implements TranscriptionEngine {
+  private options: TranscriptionEngineOptions;
+  private setup: WhisperSetup | null = null;
+  private websocket: WebSocket | null = null;
+  private isConnected = false;
+  private isFinishing = false;
+  private hasCompleted = false;
+  private currentText = '';
+  private currentWords: TranscriptWord[] = [];
+  private chunks: Blob[] = [];
+  private transcribedChunkCount = 0;
+  private isTranscribing = false;
+  private session = 0; // Bumped on every connect/disconnect so late responses from an old session are ignored
+  private partialTimer: ReturnType<typeof setInterval> | null = null;
+  private finalTimer: ReturnType<typeof setTimeout> | null = null;
+  private contentType = 'audio/webm';
+  private language: PracticeLanguage = DEFAULT_PRACTICE_LANGUAGE;
+
+  // Recordings are uploaded as files, so they need a container format Whisper's decoder can read
+  readonly supportedContentTypes = ['audio/webm', 'audio/ogg', 'audio/mp4'] as const;
+
+  // Whisper is multilingual, unless the server runs an English-only (".en") model
+  readonly supportedLanguages = ['en', 'es', 'fr'] as const;
+
+  constructor(options: TranscriptionEngineOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Start a new transcription session with the Whisper server
+   */
+  async connect(contentType: string, language: PracticeLanguage): Promise<void> {
+    try {
+      console.log('Starting Whisper setup...');
+      this.resetSession();
+      this.contentType = contentType;
+      this.language = language;
+
+      const setup = await requestTranscriptionSetup();
+      if (setup.engine !== 'whisper') {
+        throw new Error(`The server is configured for the ${setup.engine} transcription engine`);
+      }
+      this.setup = setup;
+
+      if (setup.mode === 'websocket') {
+        await this.openStream(setup);
+      } else {
+        this.isConnected = true;
+        this.startPartialTimer();
+      }
+
+      console.log(`Whisper ready (${setup.mode} mode)`);
+      this.options.onConnected?.();
+    } catch (error) {
+      console.error('Error setting up Whisper service:', error);
+      this.options.onError?.(new Error(`Failed to connect to Whisper: ${error instanceof Error ? error.message : String(error)}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Stream audio through the relay to a Whisper server that accepts WebSocket connections
+   */
+  private openStream(setup: Extract<WhisperSetup, { mode: 'websocket' }>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const websocket = new WebSocket(buildRelayUrl(setup, `content_type=${this.contentType}&language=${this.language}`));
+      this.websocket = websocket;
+
+      websocket.onopen = () => {
+        console.log('WebSocket connection established with Whisper');
+        this.isConnected = true;
+        resolve();
+      };
+
+      // A socket replaced by a newer session may still deliver events, they're ignored
+      websocket.onmessage = (event) => {
+        if (this.websocket !== websocket) return;
+        if (typeof event.data !== 'string') {
+          return;
+        }
+
+        // Accept JSON messages, or plain text from simpler servers
+        let message: WhisperStreamMessage;
+        try {
+          message = JSON.parse(event.data) as WhisperStreamMessage;
+        } catch {
+          message = { text: event.data };
+        }
+
+        if (typeof message.text !== 'string') {
+          return;
+        }
+
+        this.currentText = message.text.trim();
+        this.currentWords = toTranscriptWords(message.words ?? []);
+        const isFinal = message.type === 'final' || message.is_final === true;
+
+        // Servers may mark segments as final while the learner is still speaking
+        if (isFinal && this.isFinishing) {
+          this.complete({ text: this.currentText, words: this.currentWords });
+        } else {
+          this.options.onTranscriptionUpdate?.({ text: this.currentText, isFinal: false, words: this.currentWords });
+        }
+      };
+
+      websocket.onerror = (error) => {
+        console.error('Whisper WebSocket error:', error);
+        if (this.websocket !== websocket) return;
+        this.isConnected = false;
+        this.options.onError?.(new Error('WebSocket connection error'));
+        reject(new Error('Could not connect to the Whisper streaming server'));
+      };
+
+      websocket.onclose = (event) => {
+        console.log(`Whisper WebSocket closed: ${event.code} - ${event.reason}`);
+        if (this.websocket !== websocket) return;
+        this.isConnected = false;
+        if (this.isFinishing) {
+          this.complete({ text: this.currentText, words: this.currentWords });
+        }
+      };
+    });
+  }
+
+  /**
+   * Send audio data to Whisper for transcription
+   */
+  sendAudioChunk(audioChunk: Blob): void {
+    if (!this.isConnected) {
+      throw new Error('Not connected to Whisper. Call connect() first.');
+    }
+
+    // Only send chunks with actual data
+    if (audioChunk.size === 0) {
+      console.warn('Ignoring empty audio chunk');
+      return;
+    }
+
+    if (!this.websocket) {
+      this.chunks.push(audioChunk);
+      return;
+    }
+
+    audioChunk.arrayBuffer().then(buffer => {
+      if (this.websocket?.readyState === WebSocket.OPEN) {
+        this.websocket.send(buffer);
+      }
+    }).catch(error => {
+      console.error('Error processing audio chunk:', error);
+      this.options.onError?.(new Error(`Error sending audio to Whisper: ${error instanceof Error ? error.message : String(error)}`));
+    });
+  }
+
+  /**
+   * Upload the whole recording so far and return its transcript
+   */
+  private async transcribeRecording(): Promise<WhisperTranscript> {
+    if (this.setup?.mode !== 'http') {
+      throw new Error('Whisper upload endpoint is not available');
+    }
+
+    const mimeType = this.chunks[0]?.type ?? 'audio/webm';
+    const formData = new FormData();
+    formData.append('audio', new Blob(this.chunks, { type: mimeType }), `recording.${getFileExtension(mimeType)}`);
+    formData.append('language', this.language);
+
+    const response = await fetch(this.setup.uploadUrl, {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Whisper API error (${response.status}): ${errorText}`);
+    }
+
+    return await response.json() as WhisperTranscript;
+  }
+
+  /**
+   * Re-transcribe the recording so far for a live transcript, unless nothing new was recorded
+   */
+  private refreshPartialTranscript(): void {
+    if (this.isTranscribing || this.isFinishing || this.chunks.length === this.transcribedChunkCount) {
+      return;
+    }
+
+    const session = this.session;
+    this.isTranscribing = true;
+    this.transcribedChunkCount = this.chunks.length;
+
+    this.transcribeRecording()
+      .then(transcript => {
+        if (session !== this.session || this.isFinishing) return;
+        this.currentText = transcript.text;
+        this.currentWords = transcript.words;
+        this.options.onTranscriptionUpdate?.({ ...transcript, isFinal: false });
+      })
+      .catch(error => {
+        // A missed live update is harmless, the final upload covers the whole recording
+        console.warn('Whisper partial transcription failed:', error);
+      })
+      .finally(() => {
+        if (session === this.session) {
+          this.isTranscribing = false;
+        }
+      });
+  }
+
+  /**
+   * Report the final transcript, once per session
+   */
+  private complete(transcript: WhisperTranscript): void {
+    if (this.hasCompleted) {
+      return;
+    }
+    this.hasCompleted = true;
+    this.currentText = transcript.text;
+    this.currentWords = transcript.words;
+
+    if (this.finalTimer) {
+      clearTimeout(this.finalTimer);
+      this.finalTimer = null;
+    }
+
+    console.log('Whisper transcription complete:', transcript.text);
+    this.options.onTranscriptionComplete?.({ ...transcript, isFinal: true });
+
+    if (this.websocket?.readyState === WebSocket.OPEN) {
+      this.websocket.close(1000, 'Client finished');
+    }
+    this.isConnected = false;
+  }
+
+  /**
+   * Finalize the transcription once recording has stopped
+   */
+  finishTranscription(): void {
+    if (!this.isConnected) {
+      console.log('Skipping finalization - not connected');
+      if (this.currentText) {
+        this.complete({ text: this.currentText, words: this.currentWords });
+      }
+      return;
+    }
+
+    // Recording may be finalized from more than one place, only upload once
+    if (this.isFinishing) {
+      return;
+    }
+
+    console.log('Finalizing Whisper transcription...');
+    this.isFinishing = true;
+    this.stopPartialTimer();
+
+    if (this.websocket) {
+      // Tell the server the audio has ended, then fall back to the latest transcript if no final one arrives
+      if (this.websocket.readyState === WebSocket.OPEN) {
+        this.websocket.send('EOS');
+      }
+      this.finalTimer = setTimeout(() => this.complete({ text: this.currentText, words: this.currentWords }), FINAL_TIMEOUT_MS);
+      return;
+    }
+
+    const session = this.session;
+    this.transcribeRecording()
+      .then(transcript => {
+        if (session === this.session) this.complete(transcript);
+      })
+      .catch(error => {
+        console.error('Whisper final transcription failed:', error);
+        if (session !== this.session) return;
+        this.options.onError?.(new Error(`Failed to transcribe recording: ${error instanceof Error ? error.message : String(error)}`));
+        this.complete({ text: this.currentText, words: this.currentWords });
+      });
+  }
+
+  private startPartialTimer(): void {
+    this.partialTimer ??= setInterval(() => this.refreshPartialTranscript(), PARTIAL_INTERVAL_MS);
+  }
+
+  /**
+   * Nothing new to transcribe while paused. A streaming Whisper server runs locally without
+   * an idle timeout, so its stream simply waits.
+   */
+  pause(): void {
+    this.stopPartialTimer();
+  }
+
+  resume(): void {
+    if (this.setup?.mode === 'http' && this.isConnected && !this.isFinishing) {
+      this.startPartialTimer();
+    }
+  }
+
+  private stopPartialTimer(): void {
+    if (this.partialTimer) {
+      clearInterval(this.partialTimer);
+      this.partialTimer = null;
+    }
+  }
+
+  private resetSession(): void {
+    this.session++;
+    this.stopPartialTimer();
+    if (this.finalTimer) {
+      clearTimeout(this.finalTimer);
+      this.finalTimer = null;
+    }
+
+    if (this.websocket) {
+      if (this.websocket.readyState === WebSocket.OPEN || this.websocket.readyState === WebSocket.CONNECTING) {
+        this.websocket.close(1000, 'Disconnected by client');
+      }
+      this.websocket = null;
+    }
+
+    this.setup = null;
+    this.isConnected = false;
+    this.isFinishing = false;
+    this.hasCompleted = false;
+    this.isTranscribing = false;
+    this.currentText = '';
+    this.currentWords = [];
+    this.chunks = [];
+    this.transcribedChunkCount = 0;
+  }
+
+  /**
+   * Abandon the current session
+   */
+  disconnect(): void {
+    console.log('Disconnecting from Whisper...');
+    this.resetSession();
+  }
+
+  /**
+   * Check if the Whisper session is ready for audio
+   */
+  isReady(): boolean {
+    return this.isConnected;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * State machine for an exam-style timed answer, e.g. "30 seconds to prepare, 60 seconds to answer":
+ *
+ *   idle → preparing → speaking → finished
+ *
+ * The learner can start speaking before the preparation time is up. The speaking time starts
+ * once the recorder is capturing (SPEAKING_STARTED), not while the transcription service
+ * connects, and ends when the recording stops, whether the time ran out or the learner stopped.
+ * Times are `Date.now()` timestamps so the countdown can be rendered from the clock.
+ */
+
+export type TimedPhase = 'idle' | 'preparing' | 'speaking' | 'finished';
+
+/**
+ * How a timed answer used its time, reported with the feedback
+ */
+export interface TimeUsage {
+  prepSeconds: number; // Preparation time allowed
+  preparedSeconds: number; // Preparation time taken
+  speakSeconds: number; // Speaking time allowed
+  usedSeconds: number; // Speaking time used
+}
+
+export interface TimedResponseState {
+  phase: TimedPhase;
+  prepSeconds: number;
+  speakSeconds: number;
+  phaseStartedAt: number | null; // Null while speaking until the recorder is capturing
+  preparedSeconds: number;
+  usedSeconds: number;
+}
+
+export type TimedResponseEvent =
+  | { type: 'PREPARE'; prepSeconds: number; speakSeconds: number; now: number }
+  | { type: 'PREPARED'; now: number }
+  | { type: 'SPEAKING_STARTED'; now: number }
+  | { type: 'SPEAKING_STOPPED'; now: number }
+  | { type: 'RESET' };
+
+export const initialTimedResponseState: TimedResponseState = {
+  phase: 'idle',
+  prepSeconds: 0,
+  speakSeconds: 0,
+  phaseStartedAt: null,
+  preparedSeconds: 0,
+  usedSeconds: 0,
+};
+
+const secondsBetween = (from: number, to: number) => Math.max(0, (to - from) / 1000);
+
+export function timedResponseReducer(
+  state: TimedResponseState,
+  event: TimedResponseEvent
+): TimedResponseState {
+  switch (event.type) {
+    case 'PREPARE':
+      if (state.phase !== 'idle') return state;
+      return {
+        ...initialTimedResponseState,
+        phase: event.prepSeconds > 0 ? 'preparing' : 'speaking',
+        prepSeconds: event.prepSeconds,
+        speakSeconds: event.speakSeconds,
+        phaseStartedAt: event.prepSeconds > 0 ? event.now : null,
+      };
+
+    case 'PREPARED':
+      if (state.phase !== 'preparing' || state.phaseStartedAt === null) return state;
+      return {
+        ...state,
+        phase: 'speaking',
+        phaseStartedAt: null,
+        preparedSeconds: Math.min(state.prepSeconds, secondsBetween(state.phaseStartedAt, event.now)),
+      };
+
+    case 'SPEAKING_STARTED':
+      if (state.phase !== 'speaking' || state.phaseStartedAt !== null) return state;
+      return { ...state, phaseStartedAt: event.now };
+
+    case 'SPEAKING_STOPPED':
+      if (state.phase !== 'speaking' || state.phaseStartedAt === null) return state;
+      return {
+        ...state,
+        phase: 'finished',
+        usedSeconds: Math.min(state.speakSeconds, secondsBetween(state.phaseStartedAt, event.now)),
+      };
+
+    case 'RESET':
+      return initialTimedResponseState;
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * When the current phase's time runs out, or null when no countdown is running
+ */
+export function phaseEndsAt(state: TimedResponseState): number | null {
+  if (state.phaseStartedAt === null) {
+    return null;
+  }
+  if (state.phase === 'preparing') {
+    return state.phaseStartedAt + state.prepSeconds * 1000;
+  }
+  if (state.phase === 'speaking') {
+    return state.phaseStartedAt + state.speakSeconds * 1000;
+  }
+  return null;
+}
+
+/**
+ * How the finished answer used its time
+ */
+export function timeUsage(state: TimedResponseState): TimeUsage | undefined {
+  if (state.phase !== 'finished') {
+    return undefined;
+  }
+  return {
+    prepSeconds: state.prepSeconds,
+    preparedSeconds: Math.round(state.preparedSeconds),
+    speakSeconds: state.speakSeconds,
+    usedSeconds: Math.round(state.usedSeconds),
+  };
+}
+
+/**
+ * Format seconds as a countdown, e.g. 65 → "1:05"
+ */
+export function formatCountdown(seconds: number): string {
+  const whole = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,84 @@
+import type { TranscriptionResult, TranscriptWord } from "~/lib/services/transcription-engine";
+
+/**
+ * A stretch of the transcript as the recognizer reported it
+ */
+export interface TranscriptSegment {
+  text: string;
+  words: TranscriptWord[];
+}
+
+/**
+ * Builds a live transcript the way streaming recognizers such as Rev.ai report it: each final
+ * result covers new audio and is committed for good, while each partial is the current guess
+ * for the audio since the last final and replaces the previous partial. Nothing is merged by
+ * comparing text, so a learner repeating a phrase is transcribed twice, as they said it.
+ */
+export class TranscriptAssembler {
+  private committed: TranscriptSegment[] = [];
+  private pending: TranscriptSegment | null = null;
+
+  /**
+   * Commit a final segment; it supersedes the pending partial
+   */
+  commit(segment: TranscriptSegment): void {
+    this.pending = null;
+    if (segment.text.trim()) {
+      this.committed.push({ text: segment.text.trim(), words: segment.words });
+    }
+  }
+
+  /**
+   * Replace the pending partial with the recognizer's latest guess
+   */
+  setPartial(segment: TranscriptSegment): void {
+    this.pending = segment.text.trim() ? { text: segment.text.trim(), words: segment.words } : null;
+  }
+
+  /**
+   * Keep the pending partial as committed, e.g. when its stream ends before the final arrives
+   */
+  commitPending(): void {
+    if (this.pending) {
+      this.commit(this.pending);
+    }
+  }
+
+  reset(): void {
+    this.committed = [];
+    this.pending = null;
+  }
+
+  get committedText(): string {
+    return this.committed.map(segment => segment.text).join(' ');
+  }
+
+  get pendingText(): string {
+    return this.pending?.text ?? '';
+  }
+
+  get text(): string {
+    return [this.committedText, this.pendingText].filter(text => text.length > 0).join(' ');
+  }
+
+  /**
+   * Every word so far, committed ones first, then the pending partial's
+   */
+  get words(): TranscriptWord[] {
+    return [...this.committed.flatMap(segment => segment.words), ...(this.pending?.words ?? [])];
+  }
+
+  /**
+   * The transcript so far as a result to report to the app
+   */
+  toResult(isFinal: boolean, confidence?: number): TranscriptionResult {
+    return {
+      text: this.text,
+      committedText: this.committedText,
+      pendingText: this.pendingText,
+      isFinal,
+      confidence,
+      words: this.words,
+    };
+  }
+}
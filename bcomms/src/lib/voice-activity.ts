@@ -0,0 +1,117 @@
+/**
+ * Energy-based voice activity detection. Frames clearly louder than the background noise count
+ * as voiced; speech starts after a short run of voiced frames and ends after a run of silent
+ * ones, so a click or the gap between two words doesn't toggle it.
+ */
+
+export interface VoiceActivityOptions {
+  onSpeechStart?: (time: number) => void;
+  onSpeechEnd?: (time: number) => void;
+}
+
+// Voiced frames needed before speech counts as started
+const SPEECH_START_SECONDS = 0.1;
+
+// Silence needed before speech counts as ended
+const SPEECH_END_SECONDS = 0.5;
+
+// Frames this much louder than the noise floor are voiced
+const SPEECH_TO_NOISE_RATIO = 3;
+
+// Below this a frame is silence, however quiet the room is
+const MIN_SPEECH_RMS = 0.01;
+
+// How quickly the noise floor follows louder background noise
+const NOISE_ADAPTATION = 0.05;
+
+/**
+ * Root-mean-square loudness of a frame of samples in the range -1...1
+ */
+export function frameRms(samples: Float32Array): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  let sum = 0;
+  for (const sample of samples) {
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+export class VoiceActivityDetector {
+  private noiseFloor: number | null = null;
+  private speaking = false;
+  private voicedSince: number | null = null;
+  private silentSince: number | null = null;
+  private firstSpeechAt: number | null = null;
+  private lastSpeechAt: number | null = null;
+
+  constructor(private readonly options: VoiceActivityOptions = {}) {}
+
+  /**
+   * Feed the loudness of the next frame
+   * @param time Seconds from the start of the recording to the end of the frame
+   */
+  process(rms: number, time: number): void {
+    this.noiseFloor ??= rms;
+    const voiced = rms >= Math.max(MIN_SPEECH_RMS, this.noiseFloor * SPEECH_TO_NOISE_RATIO);
+
+    if (voiced) {
+      this.silentSince = null;
+      this.voicedSince ??= time;
+      if (this.speaking) {
+        this.lastSpeechAt = time;
+      } else if (time - this.voicedSince >= SPEECH_START_SECONDS) {
+        this.speaking = true;
+        this.firstSpeechAt ??= this.voicedSince;
+        this.lastSpeechAt = time;
+        this.options.onSpeechStart?.(this.voicedSince);
+      }
+      return;
+    }
+
+    // Drop to quieter backgrounds at once, follow louder ones slowly
+    this.noiseFloor = rms < this.noiseFloor ? rms : this.noiseFloor + (rms - this.noiseFloor) * NOISE_ADAPTATION;
+    this.voicedSince = null;
+    this.silentSince ??= time;
+    if (this.speaking && time - this.silentSince >= SPEECH_END_SECONDS) {
+      this.speaking = false;
+      this.options.onSpeechEnd?.(this.silentSince);
+    }
+  }
+
+  /**
+   * End speech that is still going on when the recording stops
+   */
+  finish(time: number): void {
+    if (this.speaking) {
+      this.speaking = false;
+      this.lastSpeechAt = time;
+      this.options.onSpeechEnd?.(time);
+    }
+  }
+
+  get hasDetectedSpeech(): boolean {
+    return this.firstSpeechAt !== null;
+  }
+
+  /**
+   * How long it has been quiet since the last speech, 0 while speaking or before any speech
+   */
+  silenceSeconds(time: number): number {
+    if (this.speaking || this.lastSpeechAt === null) {
+      return 0;
+    }
+    return time - this.lastSpeechAt;
+  }
+
+  /**
+   * Start and end of the speech in the recording, in seconds, or null if there was none
+   */
+  get speechBounds(): { start: number; end: number } | null {
+    if (this.firstSpeechAt === null || this.lastSpeechAt === null) {
+      return null;
+    }
+    return { start: this.firstSpeechAt, end: this.lastSpeechAt };
+  }
+}
@@ -8,6 +8,7 @@ export function middleware(_request: NextRequest) {
   console.log('Environment variables status:');
   console.log('- REVAI_API_KEY:', env.REVAI_API_KEY ? 'Set' : 'Not set');
   console.log('- GROQ_API_KEY:', env.GROQ_API_KEY ? 'Set' : 'Not set');
+  console.log('- LLM_PROVIDER:', env.LLM_PROVIDER);
   
   // Allow the request to continue
   return NextResponse.next();
@@ -1,4 +1,6 @@
+import { attemptRouter } from "~/server/api/routers/attempt";
 import { postRouter } from "~/server/api/routers/post";
+import { scenarioRouter } from "~/server/api/routers/scenario";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -8,6 +10,8 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  */
 export const appRouter = createTRPCRouter({
   post: postRouter,
+  attempt: attemptRouter,
+  scenario: scenarioRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,142 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { feedbackSchema } from "~/lib/feedback-schema";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { attempts, recordings } from "~/server/db/schema";
+import { purgeExpiredRecordings } from "~/server/recordings";
+
+const sentimentLabel = z.enum(["positive", "negative", "neutral"]);
+
+const attemptInput = z.object({
+  scenarioId: z.number().int().nullish(),
+  scenario: z.object({
+    description: z.string(),
+    prompt: z.string(),
+  }),
+  transcript: z.string().min(1),
+  dialogue: z
+    .array(
+      z.object({ role: z.enum(["learner", "partner"]), text: z.string() }),
+    )
+    .nullish(),
+  feedback: feedbackSchema.partial({ scores: true }),
+  sentiment: z
+    .object({
+      overall: sentimentLabel,
+      score: z.number(),
+      details: z.array(
+        z.object({
+          content: z.string(),
+          score: z.number(),
+          sentiment: sentimentLabel,
+          ts: z.number().optional(),
+          end_ts: z.number().optional(),
+        }),
+      ),
+    })
+    .nullish(),
+  transcriptCorrection: z
+    .object({
+      recognizedText: z.string(),
+      correctedText: z.string(),
+      edits: z.array(
+        z.object({
+          recognized: z.string().optional(),
+          corrected: z.string().optional(),
+        }),
+      ),
+      recognizedWordCount: z.number().int().min(0),
+      changedWordCount: z.number().int().min(0),
+      editRate: z.number().min(0),
+    })
+    .nullish(),
+  recordedAt: z.date(),
+});
+
+export const attemptRouter = createTRPCRouter({
+  create: protectedProcedure
+    .input(attemptInput)
+    .mutation(async ({ ctx, input }) => {
+      const [attempt] = await ctx.db
+        .insert(attempts)
+        .values({
+          userId: ctx.session.user.id,
+          scenarioId: input.scenarioId ?? null,
+          scenario: input.scenario,
+          transcript: input.transcript,
+          dialogue: input.dialogue ?? null,
+          feedback: input.feedback,
+          sentiment: input.sentiment ?? null,
+          transcriptCorrection: input.transcriptCorrection ?? null,
+          recordedAt: input.recordedAt,
+        })
+        .returning();
+
+      return attempt;
+    }),
+
+  list: protectedProcedure
+    .input(
+      z
+        .object({ limit: z.number().int().min(1).max(100).default(20) })
+        .optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      await purgeExpiredRecordings();
+
+      return ctx.db.query.attempts.findMany({
+        where: eq(attempts.userId, ctx.session.user.id),
+        orderBy: [desc(attempts.createdAt), desc(attempts.id)],
+        limit: input?.limit ?? 20,
+        // The audio itself is fetched from /api/attempts/[id]/recording when played
+        with: { recording: { columns: { mimeType: true, expiresAt: true } } },
+      });
+    }),
+
+  getById: protectedProcedure
+    .input(z.object({ id: z.number().int() }))
+    .query(async ({ ctx, input }) => {
+      const attempt = await ctx.db.query.attempts.findFirst({
+        where: and(
+          eq(attempts.id, input.id),
+          eq(attempts.userId, ctx.session.user.id),
+        ),
+      });
+
+      if (!attempt) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+
+      return attempt;
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      const attempt = await ctx.db.query.attempts.findFirst({
+        where: and(
+          eq(attempts.id, input.id),
+          eq(attempts.userId, ctx.session.user.id),
+        ),
+        columns: { id: true },
+      });
+
+      // Don't rely on SQLite enforcing the cascade for something as personal as a voice recording
+      if (attempt) {
+        await ctx.db
+          .delete(recordings)
+          .where(eq(recordings.attemptId, attempt.id));
+      }
+
+      await ctx.db
+        .delete(attempts)
+        .where(
+          and(
+            eq(attempts.id, input.id),
+            eq(attempts.userId, ctx.session.user.id),
+          ),
+        );
+    }),
+});
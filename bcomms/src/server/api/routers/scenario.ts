@@ -0,0 +1,153 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, type SQL } from "drizzle-orm";
+import { z } from "zod";
+
+import type { Scenario } from "~/components/ui/scenario-dropdown";
+import { DEFAULT_PRACTICE_LANGUAGE, practiceLanguages } from "~/lib/languages";
+import {
+  MAX_CUSTOM_VOCABULARY_PHRASE_LENGTH,
+  MAX_CUSTOM_VOCABULARY_PHRASES,
+  MAX_PREP_SECONDS,
+  MAX_REFERENCE_TEXT_LENGTH,
+  MAX_SPEAK_SECONDS,
+  MIN_SPEAK_SECONDS,
+  scenarioCategories,
+  scenarioDifficulties,
+} from "~/lib/scenarios";
+import {
+  createTRPCRouter,
+  instructorProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import { scenarios } from "~/server/db/schema";
+import { prepareCustomVocabulary } from "~/server/transcribe/custom-vocabulary";
+
+const scenarioInput = z.object({
+  description: z.string().trim().min(1),
+  prompt: z.string().trim().min(1),
+  category: z.enum(scenarioCategories),
+  difficulty: z.enum(scenarioDifficulties),
+  language: z.enum(practiceLanguages).default(DEFAULT_PRACTICE_LANGUAGE),
+  targetSkills: z.array(z.string().trim().min(1)).default([]),
+  exampleAnswers: z.array(z.string().trim().min(1)).optional(),
+  prepSeconds: z.number().int().min(0).max(MAX_PREP_SECONDS).optional(),
+  speakSeconds: z
+    .number()
+    .int()
+    .min(MIN_SPEAK_SECONDS)
+    .max(MAX_SPEAK_SECONDS)
+    .optional(),
+  referenceText: z.string().trim().min(1).max(MAX_REFERENCE_TEXT_LENGTH).optional(),
+  customVocabulary: z
+    .array(z.string().trim().min(1).max(MAX_CUSTOM_VOCABULARY_PHRASE_LENGTH))
+    .max(MAX_CUSTOM_VOCABULARY_PHRASES)
+    .default([]),
+});
+
+/**
+ * Strip bookkeeping columns and normalize nullable columns to the client-side `Scenario` shape
+ */
+function toScenario(row: typeof scenarios.$inferSelect): Scenario {
+  return {
+    id: row.id,
+    description: row.description,
+    prompt: row.prompt,
+    category: row.category,
+    difficulty: row.difficulty,
+    language: row.language,
+    targetSkills: row.targetSkills,
+    exampleAnswers: row.exampleAnswers ?? undefined,
+    prepSeconds: row.prepSeconds ?? undefined,
+    speakSeconds: row.speakSeconds ?? undefined,
+    referenceText: row.referenceText ?? undefined,
+    customVocabulary: row.customVocabulary,
+  };
+}
+
+export const scenarioRouter = createTRPCRouter({
+  list: publicProcedure
+    .input(
+      z
+        .object({
+          category: z.enum(scenarioCategories).optional(),
+          difficulty: z.enum(scenarioDifficulties).optional(),
+          language: z.enum(practiceLanguages).optional(),
+        })
+        .optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      const filters: SQL[] = [];
+      if (input?.category) filters.push(eq(scenarios.category, input.category));
+      if (input?.difficulty) {
+        filters.push(eq(scenarios.difficulty, input.difficulty));
+      }
+      if (input?.language) filters.push(eq(scenarios.language, input.language));
+
+      const rows = await ctx.db.query.scenarios.findMany({
+        where: and(...filters),
+        orderBy: [asc(scenarios.category), asc(scenarios.id)],
+      });
+
+      return rows.map(toScenario);
+    }),
+
+  getById: publicProcedure
+    .input(z.object({ id: z.number().int() }))
+    .query(async ({ ctx, input }) => {
+      const row = await ctx.db.query.scenarios.findFirst({
+        where: eq(scenarios.id, input.id),
+      });
+
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+
+      return toScenario(row);
+    }),
+
+  create: instructorProcedure
+    .input(scenarioInput)
+    .mutation(async ({ ctx, input }) => {
+      const [row] = await ctx.db
+        .insert(scenarios)
+        .values({ ...input, createdById: ctx.session.user.id })
+        .returning();
+
+      if (!row) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
+      }
+
+      prepareCustomVocabulary(row.customVocabulary);
+      return toScenario(row);
+    }),
+
+  update: instructorProcedure
+    .input(scenarioInput.extend({ id: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...values } = input;
+      const [row] = await ctx.db
+        .update(scenarios)
+        .set({
+          ...values,
+          exampleAnswers: values.exampleAnswers ?? null,
+          prepSeconds: values.prepSeconds ?? null,
+          speakSeconds: values.speakSeconds ?? null,
+          referenceText: values.referenceText ?? null,
+        })
+        .where(eq(scenarios.id, id))
+        .returning();
+
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+
+      prepareCustomVocabulary(row.customVocabulary);
+      return toScenario(row);
+    }),
+
+  delete: instructorProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.delete(scenarios).where(eq(scenarios.id, input.id));
+    }),
+});
@@ -11,6 +11,7 @@ import superjson from "superjson";
 import { ZodError } from "zod";
 
 import { auth } from "~/server/auth";
+import { db } from "~/server/db";
 
 /**
  * 1. CONTEXT
@@ -28,6 +29,7 @@ export const createTRPCContext = async (opts: { headers: Headers }) => {
   const session = await auth();
 
   return {
+    db,
     session,
     ...opts,
   };
@@ -128,3 +130,16 @@ export const protectedProcedure = t.procedure
       },
     });
   });
+
+/**
+ * Instructor procedure
+ *
+ * For changes to data shared by everyone, like the scenario library. Only users listed in
+ * INSTRUCTOR_USER_IDS may call it.
+ */
+export const instructorProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.session.user.role !== "instructor") {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+  return next();
+});
@@ -1,6 +1,23 @@
 import { type DefaultSession, type NextAuthConfig } from "next-auth";
 import DiscordProvider from "next-auth/providers/discord";
 
+import { env } from "~/env";
+
+// Instructors manage the shared scenario library, learners only practice
+export type UserRole = "instructor" | "learner";
+
+/**
+ * Users are instructors when their id, the Discord user id kept by the `jwt` callback, is listed
+ * in INSTRUCTOR_USER_IDS
+ */
+export function getUserRole(userId: string | undefined): UserRole {
+  const instructorIds = (env.INSTRUCTOR_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return userId && instructorIds.includes(userId) ? "instructor" : "learner";
+}
+
 /**
  * Module augmentation for `next-auth` types. Allows us to add custom properties to the `session`
  * object and keep type safety.
@@ -11,8 +28,7 @@ declare module "next-auth" {
   interface Session extends DefaultSession {
     user: {
       id: string;
-      // ...other properties
-      // role: UserRole;
+      role: UserRole;
     } & DefaultSession["user"];
   }
 
@@ -41,11 +57,22 @@ export const authConfig = {
      */
   ],
   callbacks: {
+    /**
+     * Without a database adapter Auth.js gives the user a new random id at every sign-in, so the
+     * provider's own account id is used instead. Attempts stay with the learner across sign-ins.
+     */
+    jwt: ({ token, account }) => {
+      if (account) {
+        token.sub = account.providerAccountId;
+      }
+      return token;
+    },
     session: ({ session, token }) => ({
       ...session,
       user: {
         ...session.user,
         id: token.sub,
+        role: getUserRole(token.sub),
       },
     }),
   },
@@ -0,0 +1,151 @@
+import { type scenarios } from "./schema";
+
+/**
+ * The scenarios the app originally shipped with, plus starter sets for the Spanish and French
+ * cohorts. `npm run db:seed` inserts the ones for any language that has no scenarios yet.
+ */
+export const defaultScenarios: (typeof scenarios.$inferInsert)[] = [
+  {
+    description: "You are calling the doctors for an appointment for a stomach problem.",
+    prompt: "What would you say when the receptionist answers?",
+    category: "phone_calls",
+    difficulty: "beginner",
+    targetSkills: ["Stating the purpose of a call", "Describing symptoms", "Polite requests"],
+    exampleAnswers: [
+      "Hi, my name is Sam Taylor. I'd like to make an appointment to see a doctor about a stomach problem I've had for a few days. Do you have anything available this week?",
+    ],
+    referenceText:
+      "Hi, my name is Sam Taylor. I'd like to make an appointment to see a doctor about a stomach problem I've had for a few days.",
+    customVocabulary: ["gastroenterologist", "stomachache", "receptionist"],
+  },
+  {
+    description: "You are at a busy, noisy coffee shop and need to order a specific drink and pastry.",
+    prompt: "How would you tell the barista your order clearly?",
+    category: "retail",
+    difficulty: "beginner",
+    targetSkills: ["Ordering clearly", "Speaking in noisy settings"],
+    exampleAnswers: [
+      "Hi! Could I get a medium oat milk latte and a chocolate croissant, please? That's for here.",
+    ],
+    referenceText: "Could I get a medium oat milk latte and a chocolate croissant, please?",
+    customVocabulary: ["cappuccino", "croissant", "oat milk", "latte", "macchiato", "barista"],
+  },
+  {
+    description: "You are in a store and can't find the item you're looking for. You see an employee.",
+    prompt: "What would you say to the employee to ask for help?",
+    category: "retail",
+    difficulty: "beginner",
+    targetSkills: ["Asking for help", "Describing an item"],
+  },
+  {
+    description: "You are meeting a friend's new partner for the first time at a casual social gathering.",
+    prompt: "How would you introduce yourself and start a brief conversation?",
+    category: "social",
+    difficulty: "intermediate",
+    targetSkills: ["Introductions", "Small talk"],
+  },
+  {
+    description: "You need to return an item of clothing that doesn't fit to a store.",
+    prompt: "What would you say to the sales associate at the customer service desk?",
+    category: "retail",
+    difficulty: "intermediate",
+    targetSkills: ["Explaining a problem", "Making requests"],
+  },
+  {
+    description: "You didn't quite understand a detail explained by a coworker/classmate about a task or assignment.",
+    prompt: "How would you approach them and ask for clarification?",
+    category: "workplace",
+    difficulty: "intermediate",
+    targetSkills: ["Asking for clarification", "Active listening"],
+  },
+  {
+    description: "You need to call a restaurant to make a dinner reservation for two people tonight.",
+    prompt: "What would you say when the restaurant answers the phone?",
+    category: "phone_calls",
+    difficulty: "beginner",
+    targetSkills: ["Making a reservation", "Giving details"],
+  },
+  {
+    description: "You are in a small team meeting (or class) and your manager (or instructor) asks for brief input from each person.",
+    prompt: "What would you say when it's your turn?",
+    category: "workplace",
+    difficulty: "advanced",
+    targetSkills: ["Giving a concise update", "Speaking in groups"],
+    prepSeconds: 30,
+    speakSeconds: 60,
+  },
+  {
+    description: "You are lost in an unfamiliar area and need to ask someone for directions.",
+    prompt: "How would you approach a stranger and ask for help?",
+    category: "social",
+    difficulty: "beginner",
+    targetSkills: ["Approaching strangers", "Asking for directions"],
+  },
+  {
+    description: "Someone has just given you instructions for something, but you missed a key step or phrase.",
+    prompt: "What would you say to ask them to repeat or clarify without sounding like you weren't paying attention?",
+    category: "workplace",
+    difficulty: "advanced",
+    targetSkills: ["Asking someone to repeat", "Tactful phrasing"],
+  },
+  {
+    description: "Llamas al centro de salud para pedir cita con el médico porque te duele el estómago.",
+    prompt: "¿Qué dirías cuando conteste la recepcionista?",
+    category: "phone_calls",
+    difficulty: "beginner",
+    language: "es",
+    targetSkills: ["Explicar el motivo de la llamada", "Describir síntomas", "Peticiones formales (usted)"],
+    exampleAnswers: [
+      "Buenos días, me llamo Sam Taylor. Quería pedir cita con el médico porque llevo unos días con dolor de estómago. ¿Tiene algo disponible esta semana?",
+    ],
+    referenceText: "Buenos días, me llamo Sam Taylor. Quería pedir cita con el médico porque llevo unos días con dolor de estómago.",
+  },
+  {
+    description: "Estás en una cafetería con mucha gente y quieres pedir un café con leche y un cruasán.",
+    prompt: "¿Cómo le harías el pedido al camarero?",
+    category: "retail",
+    difficulty: "beginner",
+    language: "es",
+    targetSkills: ["Pedir con claridad", "Cortesía"],
+    referenceText: "Hola, ¿me pone un café con leche y un cruasán, por favor?",
+    customVocabulary: ["cruasán", "café con leche", "cortado"],
+  },
+  {
+    description: "Tu compañero de trabajo te ha explicado una tarea, pero no has entendido un detalle.",
+    prompt: "¿Cómo le pedirías que te lo aclare?",
+    category: "workplace",
+    difficulty: "intermediate",
+    language: "es",
+    targetSkills: ["Pedir aclaraciones", "Escucha activa"],
+  },
+  {
+    description: "Vous appelez le cabinet médical pour prendre rendez-vous parce que vous avez mal au ventre.",
+    prompt: "Que diriez-vous quand la secrétaire répond ?",
+    category: "phone_calls",
+    difficulty: "beginner",
+    language: "fr",
+    targetSkills: ["Expliquer le motif de l'appel", "Décrire des symptômes", "Vouvoiement"],
+    exampleAnswers: [
+      "Bonjour, je m'appelle Sam Taylor. Je voudrais prendre rendez-vous avec un médecin, j'ai mal au ventre depuis quelques jours. Est-ce que vous auriez quelque chose cette semaine ?",
+    ],
+    referenceText: "Bonjour, je m'appelle Sam Taylor. Je voudrais prendre rendez-vous avec un médecin, j'ai mal au ventre depuis quelques jours.",
+  },
+  {
+    description: "Vous êtes dans une boulangerie et vous voulez acheter une baguette et deux croissants.",
+    prompt: "Que diriez-vous à la boulangère ?",
+    category: "retail",
+    difficulty: "beginner",
+    language: "fr",
+    targetSkills: ["Commander clairement", "Formules de politesse"],
+    referenceText: "Bonjour madame, je voudrais une baguette et deux croissants, s'il vous plaît.",
+    customVocabulary: ["baguette", "croissants", "pain au chocolat"],
+  },
+  {
+    description: "Vous rencontrez le nouveau partenaire d'un ami pour la première fois lors d'une soirée.",
+    prompt: "Comment vous présenteriez-vous pour lancer la conversation ?",
+    category: "social",
+    difficulty: "intermediate",
+    language: "fr",
+    targetSkills: ["Se présenter", "Bavarder"],
+  },
+];
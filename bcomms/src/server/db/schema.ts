@@ -0,0 +1,166 @@
+import { relations, sql } from "drizzle-orm";
+import { index, sqliteTableCreator } from "drizzle-orm/sqlite-core";
+
+import type { Scenario } from "~/components/ui/scenario-dropdown";
+import type { TranscriptCorrection } from "~/lib/analysis/transcript-edits";
+import { practiceLanguages } from "~/lib/languages";
+import { scenarioCategories, scenarioDifficulties } from "~/lib/scenarios";
+import type { DialogueTurn } from "~/lib/services/conversation-service";
+import type { FeedbackResponse } from "~/lib/services/groq-service";
+import type { SentimentSummary } from "~/lib/services/rev-ai-sentiment-service";
+
+/**
+ * This is an example of how to use the multi-project schema feature of Drizzle ORM. Use the same
+ * database instance for multiple projects.
+ *
+ * @see https://orm.drizzle.team/docs/goodies#multi-project-schema
+ */
+export const createTable = sqliteTableCreator((name) => `bcomms_${name}`);
+
+/**
+ * A speaking scenario in the practice library. Instructors can add and edit these without a deploy.
+ */
+export const scenarios = createTable(
+  "scenario",
+  (d) => ({
+    id: d.integer({ mode: "number" }).primaryKey({ autoIncrement: true }),
+    description: d.text().notNull(),
+    prompt: d.text().notNull(),
+    category: d.text({ enum: scenarioCategories }).notNull(),
+    difficulty: d.text({ enum: scenarioDifficulties }).notNull(),
+    // The language the learner answers in; the practice page lists one language at a time
+    language: d.text({ enum: practiceLanguages }).default("en").notNull(),
+    targetSkills: d
+      .text({ mode: "json" })
+      .$type<string[]>()
+      .default(sql`'[]'`)
+      .notNull(),
+    exampleAnswers: d.text({ mode: "json" }).$type<string[]>(),
+    // Exam-style timing; the scenario is answered in a timed response when speakSeconds is set
+    prepSeconds: d.integer({ mode: "number" }),
+    speakSeconds: d.integer({ mode: "number" }),
+    // Model text for read-aloud practice, aligned word by word against what the learner said
+    referenceText: d.text(),
+    // Uncommon words and names the recognizer should expect, e.g. "cappuccino"
+    customVocabulary: d
+      .text({ mode: "json" })
+      .$type<string[]>()
+      .default(sql`'[]'`)
+      .notNull(),
+    createdById: d.text({ length: 255 }),
+    createdAt: d
+      .integer({ mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+    updatedAt: d.integer({ mode: "timestamp" }).$onUpdate(() => new Date()),
+  }),
+  (t) => [
+    index("scenario_category_idx").on(t.category),
+    index("scenario_language_idx").on(t.language),
+  ],
+);
+
+/**
+ * One recorded and evaluated answer to a speaking scenario. The scenario is stored as a snapshot
+ * so past attempts still read correctly if the scenario text changes later.
+ */
+export const attempts = createTable(
+  "attempt",
+  (d) => ({
+    id: d.integer({ mode: "number" }).primaryKey({ autoIncrement: true }),
+    userId: d.text({ length: 255 }).notNull(),
+    scenarioId: d
+      .integer({ mode: "number" })
+      .references(() => scenarios.id, { onDelete: "set null" }),
+    scenario: d
+      .text({ mode: "json" })
+      .$type<Pick<Scenario, "description" | "prompt">>()
+      .notNull(),
+    transcript: d.text().notNull(),
+    dialogue: d.text({ mode: "json" }).$type<DialogueTurn[]>(),
+    feedback: d
+      .text({ mode: "json" })
+      .$type<Omit<FeedbackResponse, "sentiment">>()
+      .notNull(),
+    sentiment: d.text({ mode: "json" }).$type<SentimentSummary>(),
+    // The learner's corrections to the recognizer's transcript, a signal of recognition quality
+    transcriptCorrection: d.text({ mode: "json" }).$type<TranscriptCorrection>(),
+    recordedAt: d.integer({ mode: "timestamp" }).notNull(),
+    createdAt: d
+      .integer({ mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+  }),
+  (t) => [
+    index("attempt_user_idx").on(t.userId),
+    index("attempt_created_at_idx").on(t.createdAt),
+  ],
+);
+
+/**
+ * The audio of an attempt, kept so learners can listen back later. Recordings are deleted once
+ * they expire, see RECORDING_RETENTION_DAYS.
+ */
+export const recordings = createTable(
+  "recording",
+  (d) => ({
+    attemptId: d
+      .integer({ mode: "number" })
+      .primaryKey()
+      .references(() => attempts.id, { onDelete: "cascade" }),
+    mimeType: d.text({ length: 255 }).notNull(),
+    size: d.integer({ mode: "number" }).notNull(),
+    data: d.blob({ mode: "buffer" }).notNull(),
+    createdAt: d
+      .integer({ mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+    expiresAt: d.integer({ mode: "timestamp" }).notNull(),
+  }),
+  (t) => [index("recording_expires_at_idx").on(t.expiresAt)],
+);
+
+/**
+ * Rev.ai custom vocabularies built for scenario vocabulary lists, keyed by a hash of the phrases
+ * so scenarios with the same list share one and an unchanged list is never built twice
+ */
+export const customVocabularies = createTable("custom_vocabulary", (d) => ({
+  phrasesHash: d.text({ length: 64 }).primaryKey(),
+  phrases: d.text({ mode: "json" }).$type<string[]>().notNull(),
+  revaiId: d.text({ length: 255 }).notNull(),
+  status: d.text({ enum: ["in_progress", "complete", "failed"] }).notNull(),
+  failure: d.text(), // Rev.ai's reason when the build failed
+  createdAt: d
+    .integer({ mode: "timestamp" })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  updatedAt: d.integer({ mode: "timestamp" }).$onUpdate(() => new Date()),
+}));
+
+/**
+ * Who started each transcription job for an uploaded recording. Only that user may collect the
+ * transcript, and the status route never asks Rev.ai about jobs that aren't listed here.
+ */
+export const transcriptionJobs = createTable(
+  "transcription_job",
+  (d) => ({
+    id: d.text({ length: 255 }).primaryKey(), // The Rev.ai job id, or the local id for Whisper
+    userId: d.text({ length: 255 }).notNull(),
+    createdAt: d
+      .integer({ mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+  }),
+  (t) => [index("transcription_job_created_at_idx").on(t.createdAt)],
+);
+
+export const attemptsRelations = relations(attempts, ({ one }) => ({
+  recording: one(recordings),
+}));
+
+export const recordingsRelations = relations(recordings, ({ one }) => ({
+  attempt: one(attempts, {
+    fields: [recordings.attemptId],
+    references: [attempts.id],
+  }),
+}));
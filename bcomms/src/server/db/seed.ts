@@ -0,0 +1,32 @@
+/**
+ * Seed the scenario library with the default scenarios.
+ *
+ * Run with `npm run db:seed` after `npm run db:push`. Each practice language is seeded when it
+ * has no scenarios of its own, so it is safe to run more than once and fills in the languages
+ * added after a library was first seeded.
+ */
+import { count } from "drizzle-orm";
+
+import { practiceLanguageNames } from "~/lib/languages";
+import { db } from "~/server/db";
+import { defaultScenarios } from "~/server/db/default-scenarios";
+import { scenarios } from "~/server/db/schema";
+
+const existing = await db
+  .select({ language: scenarios.language, count: count() })
+  .from(scenarios)
+  .groupBy(scenarios.language);
+const seededLanguages = new Set(existing.map((row) => row.language));
+
+const missing = defaultScenarios.filter(
+  (scenario) => !seededLanguages.has(scenario.language ?? "en"),
+);
+
+for (const row of existing) {
+  console.log(`${practiceLanguageNames[row.language]} already has ${row.count} scenarios, skipping`);
+}
+
+if (missing.length > 0) {
+  await db.insert(scenarios).values(missing);
+  console.log(`Seeded ${missing.length} default scenarios`);
+}
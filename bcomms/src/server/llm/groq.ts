@@ -0,0 +1,17 @@
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+const GROQ_BASE_URL = "https://api.groq.com/openai/v1";
+
+/**
+ * Groq's hosted models, served through its OpenAI-compatible API
+ */
+export class GroqProvider extends OpenAICompatibleProvider {
+  constructor(options: { apiKey: string; model: string; baseUrl?: string }) {
+    super({
+      name: "Groq",
+      baseUrl: options.baseUrl ?? GROQ_BASE_URL,
+      apiKey: options.apiKey,
+      model: options.model,
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { env } from "~/env";
+
+import { GroqProvider } from "./groq";
+import { OllamaProvider } from "./ollama";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import type { LlmProvider } from "./types";
+
+export { LlmProviderError, type ChatMessage, type ChatOptions, type LlmProvider } from "./types";
+
+// Models used when LLM_MODEL is not set
+const DEFAULT_MODELS = {
+  groq: "llama-3.3-70b-versatile",
+  openai: "gpt-4o-mini",
+  ollama: "llama3.1",
+  llamacpp: "default", // llama.cpp serves whichever model it was started with
+} as const satisfies Record<typeof env.LLM_PROVIDER, string>;
+
+const LLAMACPP_BASE_URL = "http://localhost:8080/v1";
+const OLLAMA_BASE_URL = "http://localhost:11434";
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/**
+ * Create the provider selected by LLM_PROVIDER,
+ * or null when it is missing the API key it needs
+ */
+export function getLlmProvider(): LlmProvider | null {
+  const model = env.LLM_MODEL ?? DEFAULT_MODELS[env.LLM_PROVIDER];
+
+  switch (env.LLM_PROVIDER) {
+    case "groq": {
+      const apiKey = env.LLM_API_KEY ?? env.GROQ_API_KEY;
+      if (!apiKey) return null;
+      return new GroqProvider({ apiKey, model, baseUrl: env.LLM_BASE_URL });
+    }
+
+    case "openai":
+      // A custom endpoint may not need a key, but OpenAI itself always does
+      if (!env.LLM_BASE_URL && !env.LLM_API_KEY) return null;
+      return new OpenAICompatibleProvider({
+        baseUrl: env.LLM_BASE_URL ?? OPENAI_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        model,
+      });
+
+    case "ollama":
+      return new OllamaProvider({ baseUrl: env.LLM_BASE_URL ?? OLLAMA_BASE_URL, model });
+
+    case "llamacpp":
+      return new OpenAICompatibleProvider({
+        name: "llama.cpp",
+        baseUrl: env.LLM_BASE_URL ?? LLAMACPP_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        model,
+      });
+  }
+}
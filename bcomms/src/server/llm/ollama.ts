@@ -0,0 +1,60 @@
+import {
+  LlmProviderError,
+  type ChatMessage,
+  type ChatOptions,
+  type LlmProvider,
+} from "./types";
+
+interface OllamaChatResponse {
+  message?: {
+    content?: string;
+  };
+}
+
+/**
+ * Provider for a local Ollama server, using its native chat API so no API key or internet access is needed
+ */
+export class OllamaProvider implements LlmProvider {
+  readonly name = "Ollama";
+  readonly model: string;
+  private readonly baseUrl: string;
+
+  constructor(options: { baseUrl: string; model: string }) {
+    this.model = options.model;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          stream: false,
+          ...(options.json ? { format: "json" } : {}),
+          options: { temperature: options.temperature },
+        }),
+      });
+    } catch (error) {
+      throw new LlmProviderError(
+        `Could not reach Ollama at ${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LlmProviderError(`Ollama API error (${response.status}): ${errorText}`);
+    }
+
+    const data = (await response.json().catch(() => null)) as OllamaChatResponse | null;
+
+    if (!data?.message?.content) {
+      throw new LlmProviderError("Invalid response format from Ollama API");
+    }
+
+    return data.message.content;
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  LlmProviderError,
+  type ChatMessage,
+  type ChatOptions,
+  type LlmProvider,
+} from "./types";
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: {
+      content?: string | null;
+    };
+  }[];
+}
+
+export interface OpenAICompatibleOptions {
+  name?: string;
+  baseUrl: string; // e.g. https://api.openai.com/v1
+  apiKey?: string; // Local servers usually don't need one
+  model: string;
+}
+
+/**
+ * Provider for any endpoint that implements the OpenAI chat completions API,
+ * such as OpenAI itself, vLLM, LM Studio or a llama.cpp server
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name ?? "OpenAI-compatible";
+    this.model = options.model;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          temperature: options.temperature,
+          ...(options.json ? { response_format: { type: "json_object" } } : {}),
+        }),
+      });
+    } catch (error) {
+      throw new LlmProviderError(
+        `Could not reach ${this.name} API: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LlmProviderError(`${this.name} API error (${response.status}): ${errorText}`);
+    }
+
+    const data = (await response.json().catch(() => null)) as ChatCompletionResponse | null;
+    const content = data?.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new LlmProviderError(`Invalid response format from ${this.name} API`);
+    }
+
+    return content;
+  }
+}
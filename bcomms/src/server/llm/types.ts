@@ -0,0 +1,31 @@
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  json?: boolean; // Ask the model to reply with a single JSON object
+}
+
+/**
+ * A chat-completion backend used to generate feedback and role-play replies
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  /**
+   * Send the conversation so far and return the text of the model's reply
+   */
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+}
+
+/**
+ * Raised when the model API fails or can't be reached, as opposed to replying with unusable content
+ */
+export class LlmProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmProviderError";
+  }
+}
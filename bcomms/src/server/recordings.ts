@@ -0,0 +1,31 @@
+import { lt } from "drizzle-orm";
+
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { recordings } from "~/server/db/schema";
+
+// Recordings are short practice answers, so anything bigger is almost certainly a mistake
+export const MAX_RECORDING_BYTES = 25 * 1024 * 1024;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Recordings are only stored when a retention period is configured
+ */
+export function isRecordingStorageEnabled(): boolean {
+  return env.RECORDING_RETENTION_DAYS > 0;
+}
+
+/**
+ * When a recording stored now should be deleted
+ */
+export function getRecordingExpiry(now = new Date()): Date {
+  return new Date(now.getTime() + env.RECORDING_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Delete every recording past its retention period
+ */
+export async function purgeExpiredRecordings(): Promise<void> {
+  await db.delete(recordings).where(lt(recordings.expiresAt, new Date()));
+}
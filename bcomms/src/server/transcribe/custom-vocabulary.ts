@@ -0,0 +1,235 @@
+import { createHash } from "node:crypto";
+import { eq } from "drizzle-orm";
+
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { customVocabularies } from "~/server/db/schema";
+
+// Rev.ai API endpoint for custom vocabularies
+const REV_AI_VOCABULARIES_URL = "https://api.rev.ai/speechtotext/v1/vocabularies";
+
+export type CustomVocabulary = typeof customVocabularies.$inferSelect;
+
+// Builds being submitted, by phrases hash, so concurrent callers share one Rev.ai job
+const pendingBuilds = new Map<string, Promise<CustomVocabulary>>();
+
+interface RevAiVocabularyResponse {
+  id: string;
+  status: CustomVocabulary["status"];
+  failure?: string;
+}
+
+/**
+ * Custom vocabularies are a Rev.ai feature, so they're only built when streaming through Rev.ai
+ */
+export function isCustomVocabularyEnabled(): boolean {
+  return env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE === "revai" && !!env.REVAI_API_KEY;
+}
+
+/**
+ * Trim, deduplicate and sort the phrases so the same list always maps to the same vocabulary
+ */
+export function normalizePhrases(phrases: string[]): string[] {
+  const unique = new Map<string, string>();
+  for (const phrase of phrases) {
+    const trimmed = phrase.trim().replace(/\s+/g, " ");
+    if (trimmed && !unique.has(trimmed.toLowerCase())) {
+      unique.set(trimmed.toLowerCase(), trimmed);
+    }
+  }
+  return [...unique.values()].sort((a, b) => a.localeCompare(b));
+}
+
+function hashPhrases(phrases: string[]): string {
+  return createHash("sha256").update(JSON.stringify(phrases)).digest("hex");
+}
+
+async function revAiRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  if (!env.REVAI_API_KEY) {
+    throw new Error("Rev.ai API key is not configured");
+  }
+
+  const response = await fetch(`${REV_AI_VOCABULARIES_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${env.REVAI_API_KEY}`,
+      "Content-Type": "application/json",
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok && response.status !== 404) {
+    const errorText = await response.text();
+    throw new Error(`Rev.ai vocabulary request failed: ${response.status} ${response.statusText} ${errorText}`);
+  }
+  return response;
+}
+
+async function findVocabulary(phrasesHash: string): Promise<CustomVocabulary | undefined> {
+  return db.query.customVocabularies.findFirst({
+    where: eq(customVocabularies.phrasesHash, phrasesHash),
+  });
+}
+
+async function submitVocabulary(
+  phrasesHash: string,
+  normalized: string[],
+  rebuild: boolean,
+): Promise<CustomVocabulary> {
+  const cached = await findVocabulary(phrasesHash);
+  if (cached && !rebuild && cached.status !== "failed") {
+    return cached;
+  }
+  if (cached) {
+    await revAiRequest(`/${cached.revaiId}`, { method: "DELETE" });
+  }
+
+  const response = await revAiRequest("", {
+    method: "POST",
+    body: JSON.stringify({
+      custom_vocabularies: [{ phrases: normalized }],
+      metadata: `bcomms ${phrasesHash.slice(0, 12)}`,
+    }),
+  });
+  const vocabulary = (await response.json()) as RevAiVocabularyResponse;
+  console.log(`Building Rev.ai custom vocabulary ${vocabulary.id} with ${normalized.length} phrases`);
+
+  const values = {
+    phrases: normalized,
+    revaiId: vocabulary.id,
+    status: vocabulary.status,
+    failure: vocabulary.failure ?? null,
+  };
+  const [row] = await db
+    .insert(customVocabularies)
+    .values({ phrasesHash, ...values })
+    .onConflictDoUpdate({ target: customVocabularies.phrasesHash, set: values })
+    .returning();
+
+  if (!row) {
+    throw new Error("Failed to store custom vocabulary");
+  }
+  return row;
+}
+
+/**
+ * Start building the vocabulary for a list of phrases on Rev.ai. A vocabulary already built or
+ * building for the same phrases is returned as is, unless `rebuild` is set or its build failed.
+ * @returns null when there are no phrases
+ */
+export async function buildCustomVocabulary(
+  phrases: string[],
+  { rebuild = false } = {},
+): Promise<CustomVocabulary | null> {
+  const normalized = normalizePhrases(phrases);
+  if (normalized.length === 0) {
+    return null;
+  }
+
+  const phrasesHash = hashPhrases(normalized);
+  const pending = pendingBuilds.get(phrasesHash);
+  if (pending) {
+    return pending;
+  }
+
+  const build = submitVocabulary(phrasesHash, normalized, rebuild).finally(() => {
+    pendingBuilds.delete(phrasesHash);
+  });
+  pendingBuilds.set(phrasesHash, build);
+  return build;
+}
+
+/**
+ * Build the vocabulary for a scenario in the background, e.g. after it was saved, so it's usually
+ * ready by the time someone practices it
+ */
+export function prepareCustomVocabulary(phrases: string[]): void {
+  if (!isCustomVocabularyEnabled() || normalizePhrases(phrases).length === 0) {
+    return;
+  }
+
+  buildCustomVocabulary(phrases).catch((error) => {
+    console.error("Failed to build custom vocabulary:", error);
+  });
+}
+
+/**
+ * Ask Rev.ai whether a vocabulary that's still building has finished
+ */
+export async function refreshCustomVocabulary(vocabulary: CustomVocabulary): Promise<CustomVocabulary> {
+  if (vocabulary.status !== "in_progress") {
+    return vocabulary;
+  }
+
+  const response = await revAiRequest(`/${vocabulary.revaiId}`);
+  if (response.status === 404) {
+    // Deleted on Rev.ai, e.g. from their dashboard; the next build starts over
+    await db.delete(customVocabularies).where(eq(customVocabularies.phrasesHash, vocabulary.phrasesHash));
+    return { ...vocabulary, status: "failed", failure: "Vocabulary no longer exists on Rev.ai" };
+  }
+
+  const { status, failure } = (await response.json()) as RevAiVocabularyResponse;
+  if (status === vocabulary.status) {
+    return vocabulary;
+  }
+
+  const [row] = await db
+    .update(customVocabularies)
+    .set({ status, failure: failure ?? null })
+    .where(eq(customVocabularies.phrasesHash, vocabulary.phrasesHash))
+    .returning();
+  return row ?? vocabulary;
+}
+
+/**
+ * The cached vocabulary for a list of phrases, with its build status brought up to date
+ */
+export async function getCustomVocabulary(phrases: string[]): Promise<CustomVocabulary | null> {
+  const normalized = normalizePhrases(phrases);
+  if (normalized.length === 0) {
+    return null;
+  }
+
+  const cached = await findVocabulary(hashPhrases(normalized));
+  return cached ? refreshCustomVocabulary(cached) : null;
+}
+
+/**
+ * The Rev.ai id of the vocabulary to attach to a stream, if it's ready. A list without a
+ * vocabulary yet starts building one, so later streams can use it.
+ */
+export async function getReadyCustomVocabularyId(phrases: string[]): Promise<string | undefined> {
+  if (!isCustomVocabularyEnabled()) {
+    return undefined;
+  }
+
+  const vocabulary = await getCustomVocabulary(phrases);
+  if (!vocabulary) {
+    prepareCustomVocabulary(phrases);
+    return undefined;
+  }
+  return vocabulary.status === "complete" ? vocabulary.revaiId : undefined;
+}
+
+/**
+ * Every cached vocabulary, with the status of those still building brought up to date
+ */
+export async function listCustomVocabularies(): Promise<CustomVocabulary[]> {
+  const rows = await db.query.customVocabularies.findMany();
+  return Promise.all(rows.map(refreshCustomVocabulary));
+}
+
+/**
+ * Delete a vocabulary on Rev.ai and from the cache
+ * @returns false when there is no such vocabulary
+ */
+export async function deleteCustomVocabulary(phrasesHash: string): Promise<boolean> {
+  const vocabulary = await findVocabulary(phrasesHash);
+  if (!vocabulary) {
+    return false;
+  }
+
+  await revAiRequest(`/${vocabulary.revaiId}`, { method: "DELETE" });
+  await db.delete(customVocabularies).where(eq(customVocabularies.phrasesHash, phrasesHash));
+  return true;
+}
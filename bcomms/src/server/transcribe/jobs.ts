@@ -0,0 +1,251 @@
+import { randomUUID } from "node:crypto";
+import { and, eq, lt } from "drizzle-orm";
+
+import { env } from "~/env";
+import type { PracticeLanguage } from "~/lib/languages";
+import type { TranscriptWord } from "~/lib/services/transcription-engine";
+import type { TranscriptionJobStatus } from "~/lib/services/transcription-job";
+import { db } from "~/server/db";
+import { transcriptionJobs } from "~/server/db/schema";
+import { getWhisperMode, transcribeWithWhisper } from "~/server/transcribe/whisper";
+
+// Rev.ai API endpoint for asynchronous transcription jobs
+const REV_AI_JOBS_URL = "https://api.rev.ai/speechtotext/v1/jobs";
+
+// Ids of jobs run by the local Whisper server, to tell them apart from Rev.ai job ids
+const LOCAL_JOB_PREFIX = "local-";
+
+// Unfinished or uncollected jobs are forgotten after this long
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+// Rev.ai deletes the audio and transcript of a job that was never collected after this long
+const REV_AI_JOB_RETENTION_SECONDS = 24 * 60 * 60;
+
+interface RevAiJob {
+  id: string;
+  status: "in_progress" | "transcribed" | "failed";
+  failure_detail?: string;
+}
+
+interface RevAiTranscript {
+  monologues: {
+    elements: {
+      type: "text" | "punct" | "unknown";
+      value: string;
+      ts?: number;
+      end_ts?: number;
+      confidence?: number;
+    }[];
+  }[];
+}
+
+interface LocalJob {
+  status: TranscriptionJobStatus;
+  expiresAt: number;
+}
+
+// Whisper transcribes an upload in a single request, so its jobs only live in this process
+const localJobs = new Map<string, LocalJob>();
+
+/**
+ * Uploads go to Rev.ai's asynchronous API, or to the Whisper server's upload endpoint
+ * @returns why uploads can't be transcribed, or null when they can
+ */
+export function getUploadUnavailableReason(): string | null {
+  if (env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE === "whisper") {
+    return getWhisperMode() === "http"
+      ? null
+      : "Uploading recordings needs a Whisper server reached over HTTP";
+  }
+  return env.REVAI_API_KEY ? null : "Rev.ai API key is not configured";
+}
+
+function purgeExpiredLocalJobs(): void {
+  const now = Date.now();
+  for (const [id, job] of localJobs) {
+    if (job.expiresAt < now) {
+      localJobs.delete(id);
+    }
+  }
+}
+
+function submitLocalJob(audio: Blob, filename: string, language: PracticeLanguage): string {
+  purgeExpiredLocalJobs();
+
+  const id = `${LOCAL_JOB_PREFIX}${randomUUID()}`;
+  const keep = (status: TranscriptionJobStatus) => {
+    localJobs.set(id, { status, expiresAt: Date.now() + JOB_TTL_MS });
+  };
+  keep({ status: "in_progress" });
+
+  transcribeWithWhisper(audio, filename, language)
+    .then(({ text, words }) => keep({ status: "completed", text, words }))
+    .catch((error: unknown) => {
+      console.error(`Local transcription job ${id} failed:`, error);
+      keep({ status: "failed", error: error instanceof Error ? error.message : String(error) });
+    });
+
+  return id;
+}
+
+async function revAiRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  if (!env.REVAI_API_KEY) {
+    throw new Error("Rev.ai API key is not configured");
+  }
+
+  return fetch(`${REV_AI_JOBS_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${env.REVAI_API_KEY}`,
+      ...init.headers,
+    },
+  });
+}
+
+async function submitRevAiJob(
+  audio: Blob,
+  filename: string,
+  language: PracticeLanguage,
+  customVocabularyId?: string,
+): Promise<string> {
+  const formData = new FormData();
+  formData.append("media", audio, filename);
+  formData.append(
+    "options",
+    JSON.stringify({
+      language,
+      metadata: "bcomms upload",
+      custom_vocabulary_id: customVocabularyId,
+      delete_after_seconds: REV_AI_JOB_RETENTION_SECONDS,
+    }),
+  );
+
+  const response = await revAiRequest("", { method: "POST", body: formData });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Rev.ai job submission failed: ${response.status} ${response.statusText} ${errorText}`);
+  }
+
+  const job = (await response.json()) as RevAiJob;
+  return job.id;
+}
+
+/**
+ * Flatten Rev.ai's transcript into the text and the timed words the feedback pipeline uses
+ */
+function toTranscript(transcript: RevAiTranscript): { text: string; words: TranscriptWord[] } {
+  const words: TranscriptWord[] = [];
+  const monologues: string[] = [];
+
+  for (const monologue of transcript.monologues) {
+    monologues.push(monologue.elements.map((element) => element.value).join("").trim());
+    for (const element of monologue.elements) {
+      if (element.type === "text") {
+        words.push({
+          text: element.value,
+          ts: element.ts,
+          endTs: element.end_ts,
+          confidence: element.confidence,
+        });
+      }
+    }
+  }
+
+  return { text: monologues.filter(Boolean).join(" "), words };
+}
+
+async function getRevAiJob(jobId: string): Promise<TranscriptionJobStatus | null> {
+  const jobPath = `/${encodeURIComponent(jobId)}`;
+  const response = await revAiRequest(jobPath);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Rev.ai job status request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const job = (await response.json()) as RevAiJob;
+  if (job.status === "in_progress") {
+    return { status: "in_progress" };
+  }
+  if (job.status === "failed") {
+    return { status: "failed", error: job.failure_detail ?? "Rev.ai could not transcribe the recording" };
+  }
+
+  const transcriptResponse = await revAiRequest(`${jobPath}/transcript`, {
+    headers: { Accept: "application/vnd.rev.transcript.v1.0+json" },
+  });
+  if (!transcriptResponse.ok) {
+    throw new Error(`Rev.ai transcript request failed: ${transcriptResponse.status} ${transcriptResponse.statusText}`);
+  }
+
+  const transcript = toTranscript((await transcriptResponse.json()) as RevAiTranscript);
+  return { status: "completed", ...transcript };
+}
+
+/**
+ * Remove a job's audio and transcript from Rev.ai. Failing to is only logged, as Rev.ai deletes
+ * the job itself once its retention period is over.
+ */
+async function deleteRevAiJob(jobId: string): Promise<void> {
+  try {
+    const response = await revAiRequest(`/${encodeURIComponent(jobId)}`, { method: "DELETE" });
+    if (!response.ok && response.status !== 404) {
+      console.error(`Failed to delete Rev.ai job ${jobId}: ${response.status} ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error(`Failed to delete Rev.ai job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Start transcribing a user's uploaded recording with the configured engine
+ * @param customVocabularyId A ready Rev.ai custom vocabulary for the scenario, ignored by Whisper
+ * @returns the id to poll with getTranscriptionJob
+ */
+export async function submitTranscriptionJob(
+  userId: string,
+  audio: Blob,
+  filename: string,
+  language: PracticeLanguage,
+  customVocabularyId?: string,
+): Promise<string> {
+  await db
+    .delete(transcriptionJobs)
+    .where(lt(transcriptionJobs.createdAt, new Date(Date.now() - JOB_TTL_MS)));
+
+  const jobId = env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE === "whisper"
+    ? submitLocalJob(audio, filename, language)
+    : await submitRevAiJob(audio, filename, language, customVocabularyId);
+
+  await db.insert(transcriptionJobs).values({ id: jobId, userId });
+  return jobId;
+}
+
+/**
+ * Where one of the user's transcription jobs is at, with the transcript once it has completed.
+ * A job that has finished is deleted once its result has been returned, along with the recording.
+ * @returns null when the user has no such job
+ */
+export async function getTranscriptionJob(userId: string, jobId: string): Promise<TranscriptionJobStatus | null> {
+  const job = await db.query.transcriptionJobs.findFirst({
+    where: and(eq(transcriptionJobs.id, jobId), eq(transcriptionJobs.userId, userId)),
+  });
+  if (!job) {
+    return null;
+  }
+
+  const isLocal = jobId.startsWith(LOCAL_JOB_PREFIX);
+  const status = isLocal ? localJobs.get(jobId)?.status ?? null : await getRevAiJob(jobId);
+  if (status?.status === "in_progress") {
+    return status;
+  }
+
+  await db.delete(transcriptionJobs).where(eq(transcriptionJobs.id, jobId));
+  if (isLocal) {
+    localJobs.delete(jobId);
+  } else if (status) {
+    await deleteRevAiJob(jobId);
+  }
+  return status;
+}
@@ -0,0 +1,184 @@
+import type { IncomingMessage, Server } from "node:http";
+import type { Duplex } from "node:stream";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+
+import { env } from "~/env";
+import {
+  STREAM_RELAY_PATH,
+  verifyStreamTicket,
+} from "~/server/transcribe/stream-ticket";
+
+// Rev.ai API endpoint for WebSocket streaming
+const REV_AI_STREAMING_URL = "wss://api.rev.ai/speechtotext/v1/stream";
+
+// Query parameters the browser may pass through to the transcription engine. Anything else
+// (notably `access_token`) is dropped so the client cannot tamper with authentication.
+const FORWARDED_PARAMS = [
+  "content_type",
+  "language",
+  "detailed_partials",
+  "remove_disfluencies",
+  "filter_profanity",
+  "custom_vocabulary_id",
+];
+
+/**
+ * Close codes that may not be sent in a close frame. When one side reports one of
+ * these we translate it into something the other side is allowed to receive.
+ */
+function toSendableCloseCode(code: number): number {
+  if (code === 1005 || code === 1006 || code === 1015) {
+    return code === 1005 ? 1000 : 1011;
+  }
+  return code;
+}
+
+function forwardParams(requestUrl: URL, params: URLSearchParams): string {
+  for (const name of FORWARDED_PARAMS) {
+    const value = requestUrl.searchParams.get(name);
+    if (value !== null) {
+      params.set(name, value);
+    }
+  }
+
+  // URLSearchParams encodes ';' and '=' inside content_type, which Rev.ai does not accept
+  return params.toString().replace(/%3B/gi, ";").replace(/%3D/gi, "=");
+}
+
+/**
+ * Build the URL of the upstream stream for the configured engine
+ * @returns null when the engine is not configured for streaming
+ */
+function buildUpstreamUrl(requestUrl: URL): string | null {
+  if (env.NEXT_PUBLIC_TRANSCRIPTION_ENGINE === "whisper") {
+    if (!env.WHISPER_URL || !/^wss?:/.test(env.WHISPER_URL)) {
+      return null;
+    }
+
+    const upstream = new URL(env.WHISPER_URL);
+    return `${upstream.origin}${upstream.pathname}?${forwardParams(requestUrl, upstream.searchParams)}`;
+  }
+
+  if (!env.REVAI_API_KEY) {
+    return null;
+  }
+
+  const params = new URLSearchParams();
+  params.set("access_token", env.REVAI_API_KEY);
+  return `${REV_AI_STREAMING_URL}?${forwardParams(requestUrl, params)}`;
+}
+
+/**
+ * Pipe one browser socket to a fresh upstream streaming session, in both directions
+ */
+function relay(client: WebSocket, upstreamUrl: string): void {
+  const upstream = new WebSocket(upstreamUrl);
+  const pending: { data: RawData; isBinary: boolean }[] = [];
+
+  client.on("message", (data, isBinary) => {
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.send(data, { binary: isBinary });
+    } else if (upstream.readyState === WebSocket.CONNECTING) {
+      // Audio may arrive before the upstream accepts the connection
+      pending.push({ data, isBinary });
+    }
+  });
+
+  upstream.on("open", () => {
+    for (const { data, isBinary } of pending.splice(0)) {
+      upstream.send(data, { binary: isBinary });
+    }
+  });
+
+  upstream.on("message", (data, isBinary) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(data, { binary: isBinary });
+    }
+  });
+
+  upstream.on("close", (code, reason) => {
+    if (client.readyState === WebSocket.OPEN || client.readyState === WebSocket.CONNECTING) {
+      client.close(toSendableCloseCode(code), reason);
+    }
+  });
+
+  upstream.on("error", (error) => {
+    console.error("Transcription upstream socket error:", error);
+    if (client.readyState === WebSocket.OPEN) {
+      client.close(1011, "Transcription service unavailable");
+    }
+  });
+
+  client.on("close", (code, reason) => {
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.close(toSendableCloseCode(code), reason);
+    } else if (upstream.readyState === WebSocket.CONNECTING) {
+      upstream.terminate();
+    }
+  });
+
+  client.on("error", (error) => {
+    console.error("Browser relay socket error:", error);
+    upstream.terminate();
+  });
+}
+
+/**
+ * Create the upgrade handler for the streaming relay.
+ *
+ * The browser opens a WebSocket to {@link STREAM_RELAY_PATH} with a ticket issued by the
+ * `setup` action of `/api/transcribe`. The relay validates the ticket, opens the real
+ * Rev.ai stream with the server-side API key (or the Whisper server's stream) and forwards
+ * frames both ways, so neither the key nor the upstream address reaches the browser.
+ *
+ * @returns an upgrade handler that returns false for requests it does not own
+ */
+function createStreamRelay(): (
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+) => boolean {
+  const wss = new WebSocketServer({ noServer: true });
+
+  return (request, socket, head) => {
+    const requestUrl = new URL(request.url ?? "/", "http://localhost");
+    if (requestUrl.pathname !== STREAM_RELAY_PATH) {
+      return false;
+    }
+
+    const upstreamUrl = buildUpstreamUrl(requestUrl);
+    if (!upstreamUrl) {
+      console.error("Streaming transcription is not configured in environment variables");
+      socket.end("HTTP/1.1 503 Service Unavailable\r\n\r\n");
+      return true;
+    }
+
+    if (!verifyStreamTicket(requestUrl.searchParams.get("ticket"))) {
+      console.warn("Rejected streaming relay connection with missing or expired ticket");
+      socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      return true;
+    }
+
+    wss.handleUpgrade(request, socket, head, (client) => {
+      relay(client, upstreamUrl);
+    });
+    return true;
+  };
+}
+
+/**
+ * Route WebSocket upgrades on the relay path to the transcription engine and hand everything else
+ * (e.g. the Next.js dev server's HMR socket) to `fallback`
+ */
+export function attachStreamRelay(
+  server: Server,
+  fallback: (request: IncomingMessage, socket: Duplex, head: Buffer) => unknown,
+): void {
+  const handleRelayUpgrade = createStreamRelay();
+
+  server.on("upgrade", (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (!handleRelayUpgrade(request, socket, head)) {
+      void fallback(request, socket, head);
+    }
+  });
+}
@@ -0,0 +1,97 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+
+import { env } from "~/env";
+
+// Path the browser connects to instead of Rev.ai
+export const STREAM_RELAY_PATH = "/api/transcribe/stream";
+
+// How long a browser may wait between requesting a ticket and opening the stream
+const TICKET_TTL_MS = 60_000;
+
+interface StreamTicketPayload {
+  exp: number;
+  nonce: string;
+}
+
+// Nonces of the tickets the relay has accepted, with their expiry. A ticket opens one connection,
+// and its nonce only needs remembering until the ticket would have expired anyway.
+const usedNonces = new Map<string, number>();
+
+function purgeExpiredNonces(now: number): void {
+  for (const [nonce, exp] of usedNonces) {
+    if (exp <= now) {
+      usedNonces.delete(nonce);
+    }
+  }
+}
+
+// The Rev.ai key doubles as the signing secret so the relay needs no extra configuration.
+// Whisper deployments without a Rev.ai key sign with AUTH_SECRET instead.
+function getSigningSecret(): string | undefined {
+  return env.REVAI_API_KEY ?? env.AUTH_SECRET;
+}
+
+function sign(payload: string): string {
+  const secret = getSigningSecret();
+  if (!secret) {
+    throw new Error("Set REVAI_API_KEY or AUTH_SECRET to sign streaming relay tickets");
+  }
+
+  // Only the HMAC digest ever leaves the server, never the secret itself
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Issue a short-lived, single-use ticket that authorizes one browser connection to the streaming relay
+ */
+export function createStreamTicket(): { ticket: string; expiresAt: number } {
+  const expiresAt = Date.now() + TICKET_TTL_MS;
+  const payload = Buffer.from(
+    JSON.stringify({ exp: expiresAt, nonce: randomUUID() } satisfies StreamTicketPayload),
+  ).toString("base64url");
+
+  return {
+    ticket: `${payload}.${sign(payload)}`,
+    expiresAt,
+  };
+}
+
+/**
+ * Check a ticket presented to the streaming relay, and use it up
+ * @returns true when the signature matches and the ticket has neither expired nor been used
+ */
+export function verifyStreamTicket(ticket: string | null): boolean {
+  if (!ticket || !getSigningSecret()) {
+    return false;
+  }
+
+  const [payload, signature] = ticket.split(".");
+  if (!payload || !signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return false;
+  }
+
+  let exp: unknown;
+  let nonce: unknown;
+  try {
+    ({ exp, nonce } = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8"),
+    ) as StreamTicketPayload);
+  } catch {
+    return false;
+  }
+
+  const now = Date.now();
+  purgeExpiredNonces(now);
+  if (typeof exp !== "number" || exp <= now || typeof nonce !== "string" || usedNonces.has(nonce)) {
+    return false;
+  }
+
+  usedNonces.set(nonce, exp);
+  return true;
+}
@@ -0,0 +1,75 @@
+import { env } from "~/env";
+import { DEFAULT_PRACTICE_LANGUAGE, type PracticeLanguage } from "~/lib/languages";
+import {
+  toTranscriptWords,
+  type WhisperTranscript,
+  type WhisperWord,
+} from "~/lib/services/whisper-service";
+
+// Path the browser uploads recordings to when the Whisper server is reached over HTTP
+export const WHISPER_UPLOAD_PATH = "/api/transcribe/whisper";
+
+export type WhisperMode = "http" | "websocket";
+
+// `verbose_json` has word timestamps at the top level or per segment, depending on the server
+interface WhisperTranscriptionResponse {
+  text?: string;
+  words?: WhisperWord[];
+  segments?: { words?: WhisperWord[] }[];
+}
+
+/**
+ * How the configured Whisper server is reached, based on the scheme of WHISPER_URL
+ * @returns null when WHISPER_URL is not set
+ */
+export function getWhisperMode(): WhisperMode | null {
+  if (!env.WHISPER_URL) {
+    return null;
+  }
+  return /^wss?:/.test(env.WHISPER_URL) ? "websocket" : "http";
+}
+
+/**
+ * Transcribe a recording with the Whisper server's upload endpoint.
+ *
+ * whisper.cpp's `/inference` and the OpenAI-compatible `/v1/audio/transcriptions` of
+ * faster-whisper-server both accept the audio as a multipart `file` field and reply
+ * with `{ "text": ... }`, so the same request works for either. Word timestamps are
+ * included when the server supports them.
+ */
+export async function transcribeWithWhisper(
+  audio: Blob,
+  filename: string,
+  language: PracticeLanguage = DEFAULT_PRACTICE_LANGUAGE,
+): Promise<WhisperTranscript> {
+  if (getWhisperMode() !== "http" || !env.WHISPER_URL) {
+    throw new Error("Whisper upload endpoint is not configured");
+  }
+
+  const formData = new FormData();
+  formData.append("file", audio, filename);
+  formData.append("response_format", "verbose_json");
+  formData.append("timestamp_granularities[]", "word");
+  formData.append("language", language);
+  if (env.WHISPER_MODEL) {
+    formData.append("model", env.WHISPER_MODEL);
+  }
+
+  const response = await fetch(env.WHISPER_URL, {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Whisper server error (${response.status}): ${errorText}`);
+  }
+
+  const data = (await response.json()) as WhisperTranscriptionResponse;
+  const words = data.words ?? data.segments?.flatMap((segment) => segment.words ?? []) ?? [];
+
+  return {
+    text: (data.text ?? "").trim(),
+    words: toTranscriptWords(words),
+  };
+}